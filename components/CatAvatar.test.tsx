@@ -0,0 +1,51 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_APPEARANCE, EYE_COLORS, FUR_PRESETS, MOODS } from '../constants';
+import { AvatarPose, CatAppearance, EarShape, EyeColor, FurPattern, FurPreset } from '../types';
+import { CatAvatar } from './CatAvatar';
+
+const render = (props: Partial<React.ComponentProps<typeof CatAvatar>> = {}) =>
+  renderToStaticMarkup(<CatAvatar isSpeaking={false} mood={MOODS.NEUTRAL} {...props} />);
+
+const look = (appearance: Partial<CatAppearance>) => render({ appearance: { ...DEFAULT_APPEARANCE, ...appearance } });
+
+describe('CatAvatar', () => {
+  it.each(Object.keys(FUR_PRESETS) as FurPreset[])('draws %s fur', fur => {
+    expect(look({ fur })).toMatchSnapshot();
+  });
+
+  it.each(['solid', 'stripes', 'patches'] as FurPattern[])('draws the %s pattern', pattern => {
+    expect(look({ fur: 'orange_tabby', pattern })).toMatchSnapshot();
+  });
+
+  it.each(Object.keys(EYE_COLORS) as EyeColor[])('draws %s eyes', eyes => {
+    expect(look({ eyes })).toMatchSnapshot();
+  });
+
+  it.each(['pointed', 'rounded', 'folded'] as EarShape[])('draws %s ears', ears => {
+    expect(look({ ears })).toMatchSnapshot();
+  });
+
+  it.each(Object.keys(MOODS))('shows the %s mood', mood => {
+    expect(render({ mood: MOODS[mood] })).toMatchSnapshot();
+  });
+
+  it('opens its mouth while speaking', () => {
+    expect(render({ isSpeaking: true })).toMatchSnapshot();
+  });
+
+  it('follows an animation pose', () => {
+    const pose: AvatarPose = { mouthOpen: 0.5, earTilt: 10, whiskerTwitch: -1, blink: 1, tailAngle: 20 };
+    expect(render({ pose })).toMatchSnapshot();
+  });
+
+  it('falls back to the default look for unknown appearance values', () => {
+    const unknown = { fur: 'plaid', pattern: 'solid', eyes: 'violet', ears: 'square' } as unknown as CatAppearance;
+    expect(render({ appearance: unknown })).toBe(render());
+  });
+
+  it('draws the same cat for the same props', () => {
+    expect(look({ fur: 'calico', pattern: 'patches' })).toBe(look({ fur: 'calico', pattern: 'patches' }));
+  });
+});
@@ -0,0 +1,190 @@
+import React, { useId } from 'react';
+import { DEFAULT_APPEARANCE, EYE_COLORS, FUR_PRESETS } from '../constants';
+import { AvatarPose, CatAppearance, EarShape, Mood } from '../types';
+
+type CatAvatarProps = {
+  isSpeaking: boolean;
+  mood: Mood;
+  appearance?: CatAppearance;
+  pose?: AvatarPose; // Animation frame; without one the mouth just follows isSpeaking
+};
+
+// Left ear outline and inner ear per shape; the right ear is mirrored
+const EARS: Record<EarShape, { outer: string, inner: string | null }> = {
+  pointed: { outer: "M 35 25 L 75 85 L 25 95 Z", inner: "M 45 45 L 65 75 L 35 80 Z" },
+  rounded: { outer: "M 28 95 Q 22 32 48 28 Q 66 32 78 84 Z", inner: "M 40 80 Q 38 46 50 42 Q 60 46 66 76 Z" },
+  folded: { outer: "M 34 78 Q 40 50 76 62 Q 62 76 36 84 Z", inner: null },
+};
+
+// Flip "x y" pairs across the middle of the 200-wide viewBox
+const mirror = (path: string) =>
+  path.replace(/(-?[\d.]+) (-?[\d.]+)/g, (_, x, y) => `${200 - Number(x)} ${y}`);
+
+// Light fur needs dark eyelids and vice versa
+const isDark = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  const luminance = 0.299 * (value >> 16) + 0.587 * ((value >> 8) & 0xff) + 0.114 * (value & 0xff);
+  return luminance < 128;
+};
+
+// Pure: the same props always draw the same cat
+export const CatAvatar = ({ isSpeaking, mood, appearance = DEFAULT_APPEARANCE, pose }: CatAvatarProps) => {
+  const fur = FUR_PRESETS[appearance.fur] ?? FUR_PRESETS[DEFAULT_APPEARANCE.fur];
+  const eyes = EYE_COLORS[appearance.eyes] ?? EYE_COLORS[DEFAULT_APPEARANCE.eyes];
+  const ears = EARS[appearance.ears] ?? EARS[DEFAULT_APPEARANCE.ears];
+  const clipId = useId();
+
+  const pupilColor = "#000";
+  const face = fur.mask ?? fur.base; // What the eyes sit on
+  const lidColor = isDark(face) ? eyes.left : "#4E342E";
+  const leftEarColor = appearance.pattern === 'patches' ? fur.accent : fur.mask ?? fur.base;
+  const rightEarColor = fur.mask ?? fur.base;
+  const tailColor = fur.mask ?? fur.base;
+
+  const mouthOpen = pose ? pose.mouthOpen : isSpeaking ? 1 : 0;
+  const earTilt = pose?.earTilt ?? 0;
+  const whiskerAngle = (pose?.whiskerTwitch ?? 0) * 6;
+  const blink = pose?.blink ?? 0;
+
+  // Determine eye shape based on mood
+  const renderEyes = () => {
+    // Relaxed, Sleepy or Affectionate (a slow blink) = Closed eyes
+    if (mood.label === 'Relaxed' || mood.label === 'Sleepy' || mood.label === 'Affectionate' || blink > 0.85) {
+       return (
+         <g stroke={lidColor} strokeWidth="3" fill="none" strokeLinecap="round">
+            {/* Left Closed Eye */}
+            <path d="M 60 95 Q 75 105 90 95" />
+            {/* Right Closed Eye */}
+            <path d="M 110 95 Q 125 105 140 95" />
+         </g>
+       );
+    }
+
+    // Excited or Hungry = Dilated pupils, Angry = Narrow slits
+    const dilated = mood.label === 'Excited' || mood.label === 'Hungry';
+    const pupilWidth = dilated ? 12 : mood.label === 'Angry' ? 2 : 5;
+    const pupilHeight = dilated ? 18 : 22;
+
+    return (
+      <g transform={blink > 0 ? `translate(0 95) scale(1 ${1 - blink}) translate(0 -95)` : undefined}>
+        {/* Left Eye */}
+        <ellipse cx="75" cy="95" rx="16" ry="20" fill={eyes.left} />
+        <ellipse cx="75" cy="95" rx={pupilWidth} ry={pupilHeight} fill={pupilColor} />
+        <circle cx="80" cy="88" r="4" fill="white" opacity="0.7" />
+
+        {/* Right Eye */}
+        <ellipse cx="125" cy="95" rx="16" ry="20" fill={eyes.right} />
+        <ellipse cx="125" cy="95" rx={pupilWidth} ry={pupilHeight} fill={pupilColor} />
+        <circle cx="130" cy="88" r="4" fill="white" opacity="0.7" />
+
+        {/* Angry = Lowered inner brows cut into the eyes */}
+        {mood.label === 'Angry' && (
+          <g fill={face}>
+            <path d="M 55 70 L 95 90 L 95 70 Z" />
+            <path d="M 145 70 L 105 90 L 105 70 Z" />
+          </g>
+        )}
+      </g>
+    );
+  };
+
+  // Markings drawn over the head, clipped to it
+  const renderPattern = () => {
+    if (appearance.pattern === 'stripes') {
+      return (
+        <g stroke={fur.accent} strokeWidth="5" strokeLinecap="round" fill="none">
+          {/* Forehead "M" */}
+          <path d="M 86 54 L 90 74" />
+          <path d="M 100 51 L 100 72" />
+          <path d="M 114 54 L 110 74" />
+          {/* Cheeks */}
+          <path d="M 24 108 L 46 112" />
+          <path d="M 26 124 L 46 122" />
+          <path d="M 176 108 L 154 112" />
+          <path d="M 174 124 L 154 122" />
+        </g>
+      );
+    }
+    if (appearance.pattern === 'patches') {
+      return (
+        <g>
+          <ellipse cx="58" cy="78" rx="42" ry="34" fill={fur.accent} />
+          <ellipse cx="152" cy="146" rx="38" ry="30" fill={fur.patch} />
+        </g>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <svg viewBox="0 0 200 200" width="100%" height="100%" style={{ overflow: 'visible' }}>
+      <defs>
+        <clipPath id={clipId}>
+          <ellipse cx="100" cy="115" rx="75" ry="65" />
+        </clipPath>
+      </defs>
+      <g>
+        {/* Tail, peeking out from behind */}
+        <path
+          d="M 150 170 Q 196 176 190 132 Q 188 112 176 102"
+          transform={`rotate(${pose?.tailAngle ?? 0} 150 170)`}
+          stroke={tailColor} strokeWidth="12" strokeLinecap="round" fill="none"
+        />
+
+        {/* Ears (Back) */}
+        <path d={ears.outer} transform={`rotate(${-earTilt} 50 85)`} fill={leftEarColor} stroke={leftEarColor} strokeWidth="6" strokeLinejoin="round" />
+        <path d={mirror(ears.outer)} transform={`rotate(${earTilt} 150 85)`} fill={rightEarColor} stroke={rightEarColor} strokeWidth="6" strokeLinejoin="round" />
+
+        {/* Head */}
+        <ellipse cx="100" cy="115" rx="75" ry="65" fill={fur.base} />
+
+        {/* Fur markings */}
+        <g clipPath={`url(#${clipId})`}>
+          {renderPattern()}
+          {fur.mask && <ellipse cx="100" cy="115" rx="46" ry="38" fill={fur.mask} />}
+          {fur.muzzle && (
+            <g fill={fur.muzzle}>
+              <path d="M 92 120 Q 100 80 108 120 Z" />
+              <ellipse cx="100" cy="142" rx="30" ry="22" />
+            </g>
+          )}
+        </g>
+
+        {/* Inner Ears */}
+        {ears.inner && (
+          <>
+            <path d={ears.inner} transform={`rotate(${-earTilt} 50 85)`} fill={fur.earInner} />
+            <path d={mirror(ears.inner)} transform={`rotate(${earTilt} 150 85)`} fill={fur.earInner} />
+          </>
+        )}
+
+        {/* Features Container (Animates slightly with face) */}
+        <g>
+            {renderEyes()}
+
+            {/* Nose */}
+            <path d="M 95 122 L 105 122 L 100 130 Z" fill={fur.nose} />
+
+            {/* Mouth */}
+            {mouthOpen > 0.05 ? (
+                 <ellipse cx="100" cy={134 + 4 * mouthOpen} rx={6 + 2 * mouthOpen} ry={2 + 5 * mouthOpen} fill={fur.nose} />
+            ) : (
+                 <path d="M 92 132 Q 100 138 108 132" stroke={fur.nose} strokeWidth="2" fill="none" strokeLinecap="round" />
+            )}
+
+            {/* Whiskers */}
+            <g stroke="#9E9E9E" strokeWidth="1.5" opacity="0.6">
+                <g transform={`rotate(${whiskerAngle} 40 120)`}>
+                    <path d="M 40 115 L 15 110" />
+                    <path d="M 40 125 L 15 130" />
+                </g>
+                <g transform={`rotate(${-whiskerAngle} 160 120)`}>
+                    <path d="M 160 115 L 185 110" />
+                    <path d="M 160 125 L 185 130" />
+                </g>
+            </g>
+        </g>
+      </g>
+    </svg>
+  );
+};
@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { AvatarPose, CatAppearance, Mood } from '../types';
+import { AvatarAnimator, REST_POSE } from '../utils/avatarMotion';
+import { CatAvatar } from './CatAvatar';
+
+type LiveCatAvatarProps = {
+  isSpeaking: boolean;
+  mood: Mood;
+  appearance?: CatAppearance;
+  analyserRef: React.RefObject<AnalyserNode | null>; // The cat's output audio
+};
+
+// Re-rendering the SVG every animation frame is too much for low-end phones
+const SPEAKING_FPS = 30;
+const IDLE_FPS = 12;
+
+// CatAvatar driven by the analyser. Keeps its own pose state so only the avatar re-renders.
+export const LiveCatAvatar = ({ isSpeaking, mood, appearance, analyserRef }: LiveCatAvatarProps) => {
+  const [pose, setPose] = useState<AvatarPose>(REST_POSE);
+
+  useEffect(() => {
+    const reducedMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+    if (reducedMotion && !isSpeaking) {
+      setPose(REST_POSE);
+      return;
+    }
+
+    const animator = new AvatarAnimator({ idle: !reducedMotion });
+    const interval = 1000 / (isSpeaking ? SPEAKING_FPS : IDLE_FPS);
+    let frame: Float32Array | null = null;
+    let lastUpdate = 0;
+    let handle = 0;
+
+    const tick = (now: number) => {
+      handle = requestAnimationFrame(tick);
+      if (now - lastUpdate < interval) return;
+      lastUpdate = now;
+
+      const analyser = analyserRef.current;
+      if (isSpeaking && analyser) {
+        if (frame?.length !== analyser.fftSize) frame = new Float32Array(analyser.fftSize);
+        analyser.getFloatTimeDomainData(frame);
+        setPose(animator.update(now, frame, analyser.context.sampleRate));
+      } else {
+        setPose(animator.update(now, null, 0));
+      }
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [isSpeaking, analyserRef]);
+
+  return <CatAvatar isSpeaking={isSpeaking} mood={mood} appearance={appearance} pose={pose} />;
+};
@@ -0,0 +1,139 @@
+import {
+  CatAppearance,
+  CatArchetype,
+  CatTrait,
+  CatVocalization,
+  EarShape,
+  EmotionRule,
+  EyeColor,
+  FurPattern,
+  FurPreset,
+  Mood,
+  PhraseCategory,
+  QuickPhrase,
+} from './types';
+
+// Audio Configuration
+export const INPUT_SAMPLE_RATE = 16000;
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+export const MOODS: Record<string, Mood> = {
+  NEUTRAL: { label: 'Waiting', emoji: '👀', color: '#9E9E9E' },
+  RELAXED: { label: 'Relaxed', emoji: '😌', color: '#42A5F5' }, // Blue
+  HAPPY: { label: 'Happy', emoji: '😺', color: '#66BB6A' },   // Green
+  EXCITED: { label: 'Excited', emoji: '🙀', color: '#FF7043' }, // Orange/Red
+  SLEEPY: { label: 'Sleepy', emoji: '😴', color: '#7E57C2' }, // Purple
+  ANGRY: { label: 'Angry', emoji: '😾', color: '#E53935' }, // Red
+  HUNGRY: { label: 'Hungry', emoji: '🍖', color: '#FFA000' }, // Amber
+  AFFECTIONATE: { label: 'Affectionate', emoji: '😻', color: '#EC407A' }, // Pink
+};
+
+export const VOICES = [
+  { name: "Puck", label: "Playful 😸" },
+  { name: "Charon", label: "Grumpy 😾" },
+  { name: "Kore", label: "Sweet 😺" },
+  { name: "Fenrir", label: "Big Cat 🦁" },
+  { name: "Zephyr", label: "Calm 😌" },
+];
+
+export const VOCALIZATIONS: Record<CatVocalization, { label: string, emoji: string }> = {
+  trill: { label: "Trill", emoji: "🎶" },
+  chirp: { label: "Chirp", emoji: "🐦" },
+  demand_meow: { label: "Demand Meow", emoji: "📣" },
+  hiss: { label: "Hiss", emoji: "😾" },
+  yowl: { label: "Yowl", emoji: "🌙" },
+  purr: { label: "Purr", emoji: "💤" },
+};
+
+// Personality traits; `prompt` is how the trait is described to the model
+export const CAT_TRAITS: Record<CatTrait, { label: string, emoji: string, prompt: string }> = {
+  grumpy: { label: "Grumpy", emoji: "😾", prompt: "grumpy and easily annoyed, grumbles and hisses more than it meows" },
+  chatty: { label: "Chatty", emoji: "🗣️", prompt: "very chatty, answers with long strings of meows and trills" },
+  shy: { label: "Shy", emoji: "🙈", prompt: "shy and quiet, uses soft, short mews" },
+  playful: { label: "Playful", emoji: "🧶", prompt: "playful and curious, full of chirps and excited mrrps" },
+  lazy: { label: "Lazy", emoji: "🛋️", prompt: "lazy and sleepy, makes slow, drawn-out sounds" },
+  affectionate: { label: "Cuddly", emoji: "😻", prompt: "affectionate, purrs at every chance" },
+  dramatic: { label: "Dramatic", emoji: "🎭", prompt: "dramatic, yowls theatrically at the slightest thing" },
+};
+
+export const CAT_ARCHETYPES: Record<CatArchetype, { label: string, emoji: string, prompt: string }> = {
+  kitten: { label: "Kitten", emoji: "🍼", prompt: "a tiny kitten: high, squeaky mews in short excited bursts" },
+  senior: { label: "Senior", emoji: "🧓", prompt: "an old cat: slow, low, creaky meows, unimpressed by almost everything" },
+  diva: { label: "Diva", emoji: "👑", prompt: "a diva: long, theatrical, demanding yowls, as if everything is about you" },
+  feral: { label: "Feral", emoji: "🌲", prompt: "a feral cat: wary and terse, quick to growl and hiss, almost never purrs" },
+};
+
+// The emotional mapping the prompts used before it became editable
+export const DEFAULT_EMOTION_RULES: EmotionRule[] = [
+  { emotion: "Happy/Greeting", sounds: "high pitched Mrrp! or Meow!" },
+  { emotion: "Hungry/Demanding", sounds: "long, drawn out Mraaaow!" },
+  { emotion: "Angry", sounds: "Hiss! or a low Grrr..." },
+  { emotion: "Love", sounds: "soft Purrr... or Mew." },
+];
+
+export const PROFILE_COLORS = ["#FF9800", "#8D6E63", "#424242", "#EC407A", "#7E57C2", "#42A5F5", "#66BB6A"];
+
+// Avatar fur colors. `accent` and `patch` color the pattern overlay; `mask` is a Siamese-style
+// dark face and ears, `muzzle` a light muzzle like a tuxedo's.
+export const FUR_PRESETS: Record<FurPreset, {
+  label: string,
+  base: string,
+  accent: string,
+  patch: string,
+  earInner: string,
+  nose: string,
+  pattern: FurPattern, // Suggested when the preset is picked
+  mask?: string,
+  muzzle?: string,
+}> = {
+  black: { label: "Black", base: "#212121", accent: "#424242", patch: "#424242", earInner: "#424242", nose: "#FF8A80", pattern: 'solid' },
+  orange_tabby: { label: "Orange Tabby", base: "#FFA726", accent: "#E65100", patch: "#EF6C00", earInner: "#FFCCBC", nose: "#F48FB1", pattern: 'stripes' },
+  calico: { label: "Calico", base: "#FAFAFA", accent: "#FB8C00", patch: "#3E2723", earInner: "#FFCDD2", nose: "#F48FB1", pattern: 'patches' },
+  tuxedo: { label: "Tuxedo", base: "#212121", accent: "#424242", patch: "#424242", earInner: "#616161", nose: "#F48FB1", pattern: 'solid', muzzle: "#FAFAFA" },
+  siamese: { label: "Siamese", base: "#F3E5D8", accent: "#A1887F", patch: "#8D6E63", earInner: "#6D4C41", nose: "#BCAAA4", pattern: 'solid', mask: "#5D4037" },
+  white: { label: "White", base: "#FAFAFA", accent: "#E0E0E0", patch: "#BDBDBD", earInner: "#FFCDD2", nose: "#FF8A80", pattern: 'solid' },
+};
+
+export const FUR_PATTERNS: Record<FurPattern, { label: string }> = {
+  solid: { label: "Solid" },
+  stripes: { label: "Stripes" },
+  patches: { label: "Patches" },
+};
+
+// Odd eyes are one of each, as in many white cats
+export const EYE_COLORS: Record<EyeColor, { label: string, left: string, right: string }> = {
+  yellow: { label: "Yellow", left: "#FFEB3B", right: "#FFEB3B" },
+  green: { label: "Green", left: "#9CCC65", right: "#9CCC65" },
+  blue: { label: "Blue", left: "#64B5F6", right: "#64B5F6" },
+  copper: { label: "Copper", left: "#FFA000", right: "#FFA000" },
+  odd: { label: "Odd", left: "#64B5F6", right: "#FFC107" },
+};
+
+export const EAR_SHAPES: Record<EarShape, { label: string }> = {
+  pointed: { label: "Pointed" },
+  rounded: { label: "Rounded" },
+  folded: { label: "Folded" },
+};
+
+// The original black cat with yellow eyes
+export const DEFAULT_APPEARANCE: CatAppearance = { fur: 'black', pattern: 'solid', eyes: 'yellow', ears: 'pointed' };
+
+export const PHRASE_CATEGORIES: Record<PhraseCategory, { label: string, emoji: string }> = {
+  general: { label: "General", emoji: "💬" },
+  feeding: { label: "Feeding", emoji: "🍖" },
+  play: { label: "Play", emoji: "🧶" },
+  vet: { label: "Vet", emoji: "🩺" },
+  bedtime: { label: "Bedtime", emoji: "🌙" },
+};
+
+// Seeded into a new database; after that the phrases are the user's
+export const DEFAULT_PHRASES: Omit<QuickPhrase, 'order'>[] = [
+  { id: "hello", label: "Hello", emoji: "👋", text: "Hello", category: 'general' },
+  { id: "hungry", label: "Hungry?", emoji: "🍖", text: "Are you hungry?", category: 'feeding' },
+  { id: "come-here", label: "Come Here", emoji: "👇", text: "Come here", category: 'general' },
+  { id: "love-you", label: "Love You", emoji: "❤️", text: "I love you", category: 'bedtime' },
+  { id: "no", label: "No", emoji: "🚫", text: "No", category: 'general' },
+  { id: "good-kitty", label: "Good Kitty", emoji: "😻", text: "Good kitty", category: 'general' },
+  { id: "play", label: "Play?", emoji: "🧶", text: "Do you want to play?", category: 'play' },
+  { id: "bye", label: "Bye", emoji: "👋", text: "Bye", category: 'general' },
+];
@@ -1,194 +1,104 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { createRoot } from "react-dom/client";
-import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
-
-const API_KEY = process.env.API_KEY;
-
-// Audio Configuration
-const INPUT_SAMPLE_RATE = 16000;
-const OUTPUT_SAMPLE_RATE = 24000;
-
-// IndexedDB Configuration
-const DB_NAME = 'CatTranslatorDB';
-const DB_VERSION = 1;
-const STORE_HISTORY = 'history';
-const STORE_FAVORITES = 'favorites';
-
-// IndexedDB Helpers
-const initDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_HISTORY)) {
-        db.createObjectStore(STORE_HISTORY, { keyPath: 'id' });
-      }
-      if (!db.objectStoreNames.contains(STORE_FAVORITES)) {
-        db.createObjectStore(STORE_FAVORITES, { keyPath: 'id' });
-      }
-    };
-    request.onsuccess = (event) => resolve((event.target as IDBOpenDBRequest).result);
-    request.onerror = (event) => reject((event.target as IDBOpenDBRequest).error);
-  });
-};
-
-const dbAPI = {
-  async getAll(storeName: string) {
-    try {
-      const db = await initDB();
-      return new Promise<HistoryItem[]>((resolve, reject) => {
-        const transaction = db.transaction(storeName, 'readonly');
-        const store = transaction.objectStore(storeName);
-        const request = store.getAll();
-        request.onsuccess = () => {
-          const results = request.result;
-          // Sort newest first based on ID (timestamp)
-          results.sort((a, b) => Number(b.id) - Number(a.id));
-          resolve(results);
-        };
-        request.onerror = () => reject(request.error);
-      });
-    } catch (e) {
-      console.error("DB Error", e);
-      return [];
-    }
-  },
-  async add(storeName: string, item: HistoryItem) {
-    try {
-      const db = await initDB();
-      return new Promise<void>((resolve, reject) => {
-        const transaction = db.transaction(storeName, 'readwrite');
-        const store = transaction.objectStore(storeName);
-        const request = store.put(item);
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(request.error);
-      });
-    } catch (e) {
-      console.error("DB Add Error", e);
-    }
-  },
-  async delete(storeName: string, id: string) {
-    try {
-      const db = await initDB();
-      return new Promise<void>((resolve, reject) => {
-        const transaction = db.transaction(storeName, 'readwrite');
-        const store = transaction.objectStore(storeName);
-        const request = store.delete(id);
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(request.error);
-      });
-    } catch (e) {
-      console.error("DB Delete Error", e);
-    }
-  },
-  async clear(storeName: string) {
-    try {
-      const db = await initDB();
-      return new Promise<void>((resolve, reject) => {
-        const transaction = db.transaction(storeName, 'readwrite');
-        const store = transaction.objectStore(storeName);
-        const request = store.clear();
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(request.error);
-      });
-    } catch (e) {
-      console.error("DB Clear Error", e);
-    }
-  }
+import { CatAvatar } from './components/CatAvatar';
+import { LiveCatAvatar } from './components/LiveCatAvatar';
+import {
+  CAT_ARCHETYPES,
+  CAT_TRAITS,
+  DEFAULT_APPEARANCE,
+  DEFAULT_EMOTION_RULES,
+  EAR_SHAPES,
+  EYE_COLORS,
+  FUR_PATTERNS,
+  FUR_PRESETS,
+  INPUT_SAMPLE_RATE,
+  MOODS,
+  OUTPUT_SAMPLE_RATE,
+  PHRASE_CATEGORIES,
+  PROFILE_COLORS,
+  VOCALIZATIONS,
+  VOICES,
+} from './constants';
+import {
+  ArchiveError,
+  CacheStats,
+  clipDuration,
+  createStorage,
+  estimateStorage,
+  exportArchive,
+  importArchive,
+  normalizeTag,
+  RemovedItems,
+  SearchQuery,
+  StorageUsage,
+} from './services/storage';
+import {
+  createLiveConnection,
+  createTranslatorBackend,
+  LiveConnection,
+  CatPersona,
+  LiveMessage,
+  MAX_EMOTION_RULES,
+  translationCacheKey,
+} from './services/translator';
+import {
+  AudioClip,
+  CatAppearance,
+  CatArchetype,
+  CatListenItem,
+  CatProfile,
+  CatTrait,
+  Conversation,
+  EarShape,
+  EmotionRule,
+  EyeColor,
+  FurPattern,
+  FurPreset,
+  HistoryItem,
+  Mood,
+  PhraseCategory,
+  QuickPhrase,
+} from './types';
+import { base64Encode, base64Decode, encodeWav, pcm16ToFloat } from './utils/audio';
+import { downloadBlob } from './utils/download';
+import { notify, registerServiceWorker, requestNotificationPermission } from './utils/offline';
+import { shareClip } from './utils/share';
+import { synthesizeCatAudio } from './utils/catSynth';
+import { MicCapture, startMicCapture } from './utils/micCapture';
+import { ConversationRecorder, RecordedTurn } from './utils/conversationRecorder';
+import { aggregateMoodFeatures, analyzeClipMood, analyzeFrame, classifyMood, FrameFeatures } from './utils/moodAnalysis';
+import { PlaybackQueue } from './utils/playbackQueue';
+import { resample } from './utils/resampler';
+import { VoiceActivityDetector } from './utils/vad';
+
+const translator = createTranslatorBackend();
+const storage = createStorage();
+
+const LISTEN_MAX_DURATION_MS = 6000; // Longest cat clip we record in "What is my cat saying?" mode
+const INPUT_CHUNK_SAMPLES = 2048; // 128ms of 16kHz audio per message to the live model
+const MOOD_WINDOW_SECONDS = 1.5; // How much recent cat audio the mood analysis looks at
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
 };
 
-// Mood Configuration
-type Mood = {
-  label: string;
-  emoji: string;
-  color: string;
-};
+// Listening to a clip means a pitch search and an FFT per frame, so it waits until the
+// browser is idle instead of holding up playback
+const analyzeClipMoodWhenIdle = (pcm16: ArrayBuffer, sampleRate: number) => new Promise<string | null>(resolve => {
+  const run = () => resolve(analyzeClipMood(pcm16ToFloat(pcm16), sampleRate));
+  if (window.requestIdleCallback) window.requestIdleCallback(run, { timeout: 2000 });
+  else window.setTimeout(run, 0);
+});
 
-const MOODS: Record<string, Mood> = {
-  NEUTRAL: { label: 'Waiting', emoji: '👀', color: '#9E9E9E' },
-  RELAXED: { label: 'Relaxed', emoji: '😌', color: '#42A5F5' }, // Blue
-  HAPPY: { label: 'Happy', emoji: '😺', color: '#66BB6A' },   // Green
-  EXCITED: { label: 'Excited', emoji: '🙀', color: '#FF7043' }, // Orange/Red
-};
+// What the models get to know about a cat
+const catVoice = (profile?: CatProfile) => profile?.voice ?? VOICES[0].name;
+const catPersona = (profile?: CatProfile): CatPersona | undefined =>
+  profile ? { name: profile.name, traits: profile.traits, archetype: profile.archetype, emotions: profile.emotions } : undefined;
 
-const VOICES = [
-  { name: "Puck", label: "Playful 😸" },
-  { name: "Charon", label: "Grumpy 😾" },
-  { name: "Kore", label: "Sweet 😺" },
-  { name: "Fenrir", label: "Big Cat 🦁" },
-  { name: "Zephyr", label: "Calm 😌" },
-];
-
-const QUICK_PHRASES = [
-  { label: "Hello 👋", text: "Hello" },
-  { label: "Hungry? 🍖", text: "Are you hungry?" },
-  { label: "Come Here 👇", text: "Come here" },
-  { label: "Love You ❤️", text: "I love you" },
-  { label: "No 🚫", text: "No" },
-  { label: "Good Kitty 😻", text: "Good kitty" },
-  { label: "Play? 🧶", text: "Do you want to play?" },
-  { label: "Bye 👋", text: "Bye" },
-];
-
-type HistoryItem = {
-  id: string;
-  originalText: string;
-  catText: string;
-  audioBase64: string;
-};
-
-const SYSTEM_INSTRUCTION = {
-  parts: [{
-    text: `You are a real cat. You are incapable of human speech. You can only make cat sounds like "meow", "purr", "hiss", "mrrp", "yowl". 
-    
-    When responding:
-    1. NEVER speak English or any human language.
-    2. Use your voice to mimic realistic cat vocalizations.
-    3. Vary your pitch and tone to convey emotion (excited meows, low growls, happy chirps).
-    
-    Emotional Mapping:
-    - Happy/Greeting -> High pitched "Mrrp!" or "Meow!"
-    - Hungry/Demanding -> Long, drawn out "Mraaaow!"
-    - Angry -> "Hiss!" or low "Grrr..."
-    - Love -> Soft "Purrr..." or "Mew."
-    
-    Act exactly like a cat.`
-  }]
-};
-
-// Helper: Convert Float32Array to valid PCM 16-bit ArrayBuffer for Gemini
-function floatTo16BitPCM(float32Array: Float32Array): ArrayBuffer {
-  const buffer = new ArrayBuffer(float32Array.length * 2);
-  const view = new DataView(buffer);
-  let offset = 0;
-  for (let i = 0; i < float32Array.length; i++, offset += 2) {
-    let s = Math.max(-1, Math.min(1, float32Array[i]));
-    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
-  }
-  return buffer;
-}
-
-// Helper: Base64 Encode
-function base64Encode(buffer: ArrayBuffer): string {
-  let binary = "";
-  const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return window.btoa(binary);
-}
-
-// Helper: Base64 Decode
-function base64Decode(base64: string): ArrayBuffer {
-  const binaryString = window.atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes.buffer;
-}
+const PHRASE_EMOJIS = ["👋", "🍖", "🐟", "🥛", "🧶", "🐭", "🩺", "💊", "🌙", "😴", "❤️", "😻", "🚫", "👇", "🏠", "🛁"];
 
 // Reusable Install Help Modal
 const InstallHelpModal = ({ onClose }: { onClose: () => void }) => (
@@ -230,90 +140,581 @@ const InstallHelpModal = ({ onClose }: { onClose: () => void }) => (
   </div>
 );
 
-// Black Cat Avatar Component
-const CatAvatar = ({ isSpeaking, mood }: { isSpeaking: boolean, mood: Mood }) => {
-  const eyeColor = "#FFEB3B"; // Yellow eyes for black cat
-  const pupilColor = "#000";
-  const catBlack = "#212121";
-  const catEarInner = "#424242";
-  const noseColor = "#FF8A80";
-
-  // Determine eye shape based on mood
-  const renderEyes = () => {
-    // Relaxed or Sleepy = Closed eyes
-    if (mood.label === 'Relaxed' || mood.label === 'Sleepy') {
-       return (
-         <g stroke={eyeColor} strokeWidth="3" fill="none" strokeLinecap="round">
-            {/* Left Closed Eye */}
-            <path d="M 60 95 Q 75 105 90 95" />
-            {/* Right Closed Eye */}
-            <path d="M 110 95 Q 125 105 140 95" />
-         </g>
-       );
-    }
-    
-    // Excited = Dilated pupils
-    const pupilWidth = mood.label === 'Excited' ? 12 : 5;
-    const pupilHeight = mood.label === 'Excited' ? 18 : 22;
-    
-    // Happy = Normal eyes but maybe slightly different? Keeping standard for now.
-    
-    return (
-      <g>
-        {/* Left Eye */}
-        <ellipse cx="75" cy="95" rx="16" ry="20" fill={eyeColor} />
-        <ellipse cx="75" cy="95" rx={pupilWidth} ry={pupilHeight} fill={pupilColor} />
-        <circle cx="80" cy="88" r="4" fill="white" opacity="0.7" />
-
-        {/* Right Eye */}
-        <ellipse cx="125" cy="95" rx="16" ry="20" fill={eyeColor} />
-        <ellipse cx="125" cy="95" rx={pupilWidth} ry={pupilHeight} fill={pupilColor} />
-        <circle cx="130" cy="88" r="4" fill="white" opacity="0.7" />
-      </g>
-    );
+// Search filters as the inputs hold them; dates are "yyyy-mm-dd"
+type ListFilters = {
+  from?: string;
+  to?: string;
+  voice?: string;
+  tag?: string;
+};
+
+const UNDO_TIMEOUT_MS = 6000;
+
+type TagModalProps = {
+  item: HistoryItem;
+  suggestions: string[]; // Tags already in use
+  onSave: (tags: string[]) => void;
+  onClose: () => void;
+};
+
+const TagModal = ({ item, suggestions, onSave, onClose }: TagModalProps) => {
+  const [tags, setTags] = useState<string[]>(item.tags ?? []);
+  const [input, setInput] = useState("");
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+    setInput("");
   };
 
   return (
-    <svg viewBox="0 0 200 200" width="100%" height="100%" style={{ overflow: 'visible' }}>
-      <g>
-        {/* Ears (Back) */}
-        <path d="M 35 25 L 75 85 L 25 95 Z" fill={catBlack} stroke={catBlack} strokeWidth="6" strokeLinejoin="round" />
-        <path d="M 165 25 L 125 85 L 175 95 Z" fill={catBlack} stroke={catBlack} strokeWidth="6" strokeLinejoin="round" />
-
-        {/* Head */}
-        <ellipse cx="100" cy="115" rx="75" ry="65" fill={catBlack} />
-
-        {/* Inner Ears */}
-        <path d="M 45 45 L 65 75 L 35 80 Z" fill={catEarInner} />
-        <path d="M 155 45 L 135 75 L 165 80 Z" fill={catEarInner} />
-
-        {/* Features Container (Animates slightly with face) */}
-        <g>
-            {renderEyes()}
-            
-            {/* Nose */}
-            <path d="M 95 122 L 105 122 L 100 130 Z" fill={noseColor} />
-            
-            {/* Mouth */}
-            {isSpeaking ? (
-                 <ellipse cx="100" cy="138" rx="8" ry="6" fill={noseColor} />
-            ) : (
-                 <path d="M 92 132 Q 100 138 108 132" stroke={noseColor} strokeWidth="2" fill="none" strokeLinecap="round" />
-            )}
+    <div style={{
+        position: 'absolute', top: 0, left: 0, right: 0, bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.7)', zIndex: 100,
+        display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '20px'
+    }} onClick={onClose}>
+        <div style={{
+            backgroundColor: 'white', padding: '25px', borderRadius: '24px',
+            width: '100%', maxWidth: '340px', boxShadow: '0 10px 40px rgba(0,0,0,0.2)'
+        }} onClick={e => e.stopPropagation()}>
+          <h3 style={{marginTop: 0, color: '#5D4037', textAlign: 'center'}}>Tags 🏷️</h3>
+
+          <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '12px', minHeight: '28px' }}>
+            {tags.map(tag => (
+              <button key={tag} onClick={() => setTags(tags.filter(t => t !== tag))} title="Remove" style={{
+                padding: '4px 10px', borderRadius: '12px', border: 'none', backgroundColor: '#FFE0B2',
+                color: '#E65100', fontSize: '13px', fontWeight: 'bold', cursor: 'pointer'
+              }}>
+                #{tag} ×
+              </button>
+            ))}
+          </div>
 
-            {/* Whiskers */}
-            <g stroke="#9E9E9E" strokeWidth="1.5" opacity="0.6">
-                <path d="M 40 115 L 15 110" />
-                <path d="M 40 125 L 15 130" />
-                <path d="M 160 115 L 185 110" />
-                <path d="M 160 125 L 185 130" />
-            </g>
-        </g>
-      </g>
-    </svg>
+          <form onSubmit={e => { e.preventDefault(); addTag(input); }}>
+            <input
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              placeholder="Add a tag, e.g. breakfast"
+              maxLength={32}
+              autoFocus
+              style={{
+                width: '100%', boxSizing: 'border-box', padding: '12px', borderRadius: '12px',
+                border: '1px solid #eee', fontSize: '16px', marginBottom: '10px'
+              }}
+            />
+          </form>
+
+          <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '20px' }}>
+            {suggestions.filter(tag => !tags.includes(tag)).slice(0, 12).map(tag => (
+              <button key={tag} onClick={() => addTag(tag)} style={{
+                padding: '4px 10px', borderRadius: '12px', border: 'none', backgroundColor: '#F5F5F5',
+                color: '#8D6E63', fontSize: '13px', cursor: 'pointer'
+              }}>
+                #{tag}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={() => onSave(input.trim() ? [...tags, input] : tags)}
+            style={{
+              width: '100%', padding: '15px', backgroundColor: '#FF9800', border: 'none', borderRadius: '12px',
+              fontWeight: 'bold', color: 'white', cursor: 'pointer'
+            }}
+          >
+            Save
+          </button>
+          <button onClick={onClose} style={{
+            width: '100%', padding: '12px', marginTop: '10px', backgroundColor: '#eee', border: 'none',
+            borderRadius: '12px', fontWeight: 'bold', color: '#666', cursor: 'pointer'
+          }}>Cancel</button>
+        </div>
+    </div>
+  );
+};
+
+type ItemDetailModalProps = {
+  item: HistoryItem;
+  profile?: CatProfile; // Cat it belongs to, if still around
+  busy: boolean; // A translation is already running
+  onReplay: () => void;
+  onRegenerate: (voice: string) => void;
+  onClose: () => void;
+};
+
+// Everything recorded about one saved item
+const ItemDetailModal = ({ item, profile, busy, onReplay, onRegenerate, onClose }: ItemDetailModalProps) => {
+  const voiceLabel = (name?: string) => VOICES.find(v => v.name === name)?.label ?? name;
+  const [voice, setVoice] = useState(VOICES.find(v => v.name !== item.voice)?.name ?? VOICES[0].name);
+  const mood = item.mood ? MOODS[item.mood] : undefined;
+
+  const rows: [string, string][] = [
+    ["When", new Date(item.createdAt).toLocaleString()],
+    ["Cat", profile?.name ?? "—"],
+    ["Voice", voiceLabel(item.voice) ?? "Unknown"],
+    ["Model", item.model ?? "Unknown"],
+    ["Mood", mood ? `${mood.emoji} ${mood.label}` : "Unknown"],
+    ...(item.kind !== 'listen' && item.intent ? [["Meaning", item.intent] as [string, string]] : []),
+    ["Length", item.durationMs !== undefined ? `${(item.durationMs / 1000).toFixed(1)}s` : "Unknown"],
+  ];
+
+  return (
+    <div style={{
+        position: 'absolute', top: 0, left: 0, right: 0, bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.7)', zIndex: 100,
+        display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '20px'
+    }} onClick={onClose}>
+        <div style={{
+            backgroundColor: 'white', padding: '25px', borderRadius: '24px',
+            width: '100%', maxWidth: '340px', boxShadow: '0 10px 40px rgba(0,0,0,0.2)'
+        }} onClick={e => e.stopPropagation()}>
+          {item.kind === 'listen' ? (
+            <>
+              <h3 style={{marginTop: 0, color: '#5D4037', textAlign: 'center'}}>
+                {VOCALIZATIONS[item.vocalization].emoji} {VOCALIZATIONS[item.vocalization].label}
+              </h3>
+              <p style={{ color: '#333', textAlign: 'center', fontSize: '15px' }}>"{item.interpretation}"</p>
+            </>
+          ) : (
+            <>
+              <p style={{ color: '#333', textAlign: 'center', fontSize: '15px', marginTop: 0 }}>"{item.originalText}"</p>
+              <h3 style={{ color: '#E65100', textAlign: 'center' }}>🐱 {item.catText}</h3>
+            </>
+          )}
+
+          <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '6px 14px', fontSize: '14px', marginBottom: '20px' }}>
+            {rows.map(([label, value]) => (
+              <React.Fragment key={label}>
+                <span style={{ color: '#999' }}>{label}</span>
+                <span style={{ color: '#5D4037', fontWeight: 'bold', wordBreak: 'break-word' }}>{value}</span>
+              </React.Fragment>
+            ))}
+          </div>
+
+          <button onClick={onReplay} style={{
+            width: '100%', padding: '15px', backgroundColor: '#FF9800', border: 'none', borderRadius: '12px',
+            fontWeight: 'bold', color: 'white', cursor: 'pointer'
+          }}>
+            🔊 Replay{item.voice ? ` in ${voiceLabel(item.voice)}` : ''}
+          </button>
+
+          {item.kind !== 'listen' && (
+            <div style={{ display: 'flex', gap: '8px', marginTop: '10px' }}>
+              <select
+                value={voice}
+                onChange={e => setVoice(e.target.value)}
+                style={{ flex: 1, padding: '12px', borderRadius: '12px', border: '1px solid #eee', fontSize: '14px', backgroundColor: 'white' }}
+              >
+                {VOICES.map(v => <option key={v.name} value={v.name}>{v.label}</option>)}
+              </select>
+              <button
+                onClick={() => onRegenerate(voice)}
+                disabled={busy}
+                style={{
+                  padding: '12px 16px', backgroundColor: '#FFF3E0', border: 'none', borderRadius: '12px',
+                  fontWeight: 'bold', color: '#E65100', cursor: busy ? 'default' : 'pointer', opacity: busy ? 0.5 : 1
+                }}
+              >
+                Say it again
+              </button>
+            </div>
+          )}
+
+          <button onClick={onClose} style={{
+            width: '100%', padding: '12px', marginTop: '10px', backgroundColor: '#eee', border: 'none',
+            borderRadius: '12px', fontWeight: 'bold', color: '#666', cursor: 'pointer'
+          }}>Close</button>
+        </div>
+    </div>
+  );
+};
+
+type PhraseModalProps = {
+  phrase: QuickPhrase;
+  isNew: boolean;
+  onSave: (phrase: QuickPhrase) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+};
+
+// Add or edit one quick phrase
+const PhraseModal = ({ phrase, isNew, onSave, onDelete, onClose }: PhraseModalProps) => {
+  const [draft, setDraft] = useState(phrase);
+  const valid = draft.label.trim() !== "" && draft.text.trim() !== "";
+
+  const chip = (selected: boolean): React.CSSProperties => ({
+    padding: '8px 10px', borderRadius: '14px', border: 'none',
+    backgroundColor: selected ? '#FF9800' : '#F5F5F5',
+    color: selected ? 'white' : '#5D4037',
+    fontWeight: '600', fontSize: '13px', cursor: 'pointer'
+  });
+  const input: React.CSSProperties = {
+    width: '100%', boxSizing: 'border-box', padding: '12px', borderRadius: '12px',
+    border: '1px solid #eee', fontSize: '16px', marginBottom: '10px'
+  };
+
+  return (
+    <div style={{
+        position: 'absolute', top: 0, left: 0, right: 0, bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.7)', zIndex: 100,
+        display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '20px'
+    }} onClick={onClose}>
+        <div style={{
+            backgroundColor: 'white', padding: '25px', borderRadius: '24px',
+            width: '100%', maxWidth: '340px', maxHeight: '80vh', overflowY: 'auto',
+            boxShadow: '0 10px 40px rgba(0,0,0,0.2)'
+        }} onClick={e => e.stopPropagation()}>
+          <h3 style={{marginTop: 0, color: '#5D4037', textAlign: 'center'}}>
+            {isNew ? "New Phrase 💬" : "Edit Phrase ✏️"}
+          </h3>
+
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <input
+              value={draft.emoji}
+              onChange={e => setDraft({ ...draft, emoji: e.target.value })}
+              maxLength={8}
+              aria-label="Emoji"
+              style={{ ...input, width: '60px', textAlign: 'center', fontSize: '22px' }}
+            />
+            <input
+              value={draft.label}
+              onChange={e => setDraft({ ...draft, label: e.target.value })}
+              placeholder="Button label"
+              maxLength={20}
+              autoFocus
+              style={input}
+            />
+          </div>
+          <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap', marginBottom: '12px' }}>
+            {PHRASE_EMOJIS.map(emoji => (
+              <button key={emoji} onClick={() => setDraft({ ...draft, emoji })} style={{
+                background: draft.emoji === emoji ? '#FFF3E0' : 'transparent', border: 'none',
+                borderRadius: '8px', fontSize: '20px', padding: '4px', cursor: 'pointer'
+              }}>{emoji}</button>
+            ))}
+          </div>
+
+          <input
+            value={draft.text}
+            onChange={e => setDraft({ ...draft, text: e.target.value })}
+            placeholder="What to say to your cat"
+            maxLength={200}
+            style={input}
+          />
+
+          <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '20px' }}>
+            {(Object.keys(PHRASE_CATEGORIES) as PhraseCategory[]).map(category => (
+              <button key={category} onClick={() => setDraft({ ...draft, category })} style={chip(draft.category === category)}>
+                {PHRASE_CATEGORIES[category].emoji} {PHRASE_CATEGORIES[category].label}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={() => onSave({ ...draft, label: draft.label.trim(), text: draft.text.trim(), emoji: draft.emoji.trim() || "💬" })}
+            disabled={!valid}
+            style={{
+              width: '100%', padding: '15px', backgroundColor: '#FF9800', border: 'none', borderRadius: '12px',
+              fontWeight: 'bold', color: 'white', cursor: 'pointer', opacity: valid ? 1 : 0.5
+            }}
+          >
+            Save
+          </button>
+          <div style={{ display: 'flex', gap: '10px', marginTop: '10px' }}>
+            <button onClick={onClose} style={{
+              flex: 1, padding: '12px', backgroundColor: '#eee', border: 'none', borderRadius: '12px',
+              fontWeight: 'bold', color: '#666', cursor: 'pointer'
+            }}>Cancel</button>
+            {!isNew && (
+              <button onClick={() => onDelete(phrase.id)} style={{
+                flex: 1, padding: '12px', backgroundColor: '#FFEBEE', border: 'none', borderRadius: '12px',
+                fontWeight: 'bold', color: '#E53935', cursor: 'pointer'
+              }}>Delete</button>
+            )}
+          </div>
+        </div>
+    </div>
   );
 };
 
+type ProfileModalProps = {
+  profiles: CatProfile[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onSave: (profile: CatProfile) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+};
+
+const newProfile = (index: number): CatProfile => ({
+  id: Date.now().toString(),
+  name: "",
+  color: PROFILE_COLORS[index % PROFILE_COLORS.length],
+  voice: VOICES[0].name,
+  traits: [],
+  appearance: DEFAULT_APPEARANCE,
+  createdAt: Date.now(),
+});
+
+// Pick which cat you're talking to, or edit a cat's name, color, voice and personality
+const ProfileModal = ({ profiles, activeId, onSelect, onSave, onDelete, onClose }: ProfileModalProps) => {
+  const [editing, setEditing] = useState<CatProfile | null>(null);
+  const appearance = editing?.appearance ?? DEFAULT_APPEARANCE;
+  const setAppearance = (change: Partial<CatAppearance>) =>
+    editing && setEditing({ ...editing, appearance: { ...appearance, ...change } });
+  const emotions = editing?.emotions ?? DEFAULT_EMOTION_RULES;
+  const setEmotion = (index: number, change: Partial<EmotionRule>) =>
+    editing && setEditing({ ...editing, emotions: emotions.map((rule, i) => i === index ? { ...rule, ...change } : rule) });
+
+  // Blank rules would only confuse the prompt
+  const finished = (profile: CatProfile): CatProfile => {
+    const rules = profile.emotions
+      ?.map(rule => ({ emotion: rule.emotion.trim(), sounds: rule.sounds.trim() }))
+      .filter(rule => rule.emotion && rule.sounds);
+    return { ...profile, name: profile.name.trim(), emotions: rules?.length ? rules : undefined };
+  };
+
+  const chip = (selected: boolean): React.CSSProperties => ({
+    padding: '8px 10px', borderRadius: '14px', border: 'none',
+    backgroundColor: selected ? '#FF9800' : '#F5F5F5',
+    color: selected ? 'white' : '#5D4037',
+    fontWeight: '600', fontSize: '13px', cursor: 'pointer'
+  });
+
+  return (
+    <div style={{
+        position: 'absolute', top: 0, left: 0, right: 0, bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.7)', zIndex: 100,
+        display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '20px'
+    }} onClick={onClose}>
+        <div style={{
+            backgroundColor: 'white', padding: '25px', borderRadius: '24px',
+            width: '100%', maxWidth: '340px', maxHeight: '80vh', overflowY: 'auto',
+            boxShadow: '0 10px 40px rgba(0,0,0,0.2)'
+        }} onClick={e => e.stopPropagation()}>
+          {editing ? (
+            <>
+              <h3 style={{marginTop: 0, color: '#5D4037', textAlign: 'center'}}>
+                {profiles.some(p => p.id === editing.id) ? "Edit Cat ✏️" : "New Cat 🐱"}
+              </h3>
+
+              <input
+                value={editing.name}
+                onChange={e => setEditing({ ...editing, name: e.target.value })}
+                placeholder="Name"
+                maxLength={40}
+                autoFocus
+                style={{
+                  width: '100%', boxSizing: 'border-box', padding: '12px', borderRadius: '12px',
+                  border: '1px solid #eee', fontSize: '16px', marginBottom: '14px'
+                }}
+              />
+
+              <div style={{ display: 'flex', gap: '8px', marginBottom: '14px', flexWrap: 'wrap' }}>
+                {PROFILE_COLORS.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => setEditing({ ...editing, color })}
+                    title={color}
+                    style={{
+                      width: '28px', height: '28px', borderRadius: '50%', backgroundColor: color, cursor: 'pointer',
+                      border: editing.color === color ? '3px solid #5D4037' : '3px solid transparent'
+                    }}
+                  />
+                ))}
+              </div>
+
+              <div style={{ width: '110px', height: '110px', margin: '0 auto 12px' }}>
+                <CatAvatar isSpeaking={false} mood={MOODS.NEUTRAL} appearance={appearance} />
+              </div>
+
+              <div style={{ fontSize: '13px', color: '#8D6E63', fontWeight: 'bold', marginBottom: '6px' }}>Fur</div>
+              <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '14px' }}>
+                {(Object.keys(FUR_PRESETS) as FurPreset[]).map(fur => (
+                  <button key={fur} onClick={() => setAppearance({ fur, pattern: FUR_PRESETS[fur].pattern })} style={chip(appearance.fur === fur)}>
+                    {FUR_PRESETS[fur].label}
+                  </button>
+                ))}
+              </div>
+
+              <div style={{ fontSize: '13px', color: '#8D6E63', fontWeight: 'bold', marginBottom: '6px' }}>Markings</div>
+              <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '14px' }}>
+                {(Object.keys(FUR_PATTERNS) as FurPattern[]).map(pattern => (
+                  <button key={pattern} onClick={() => setAppearance({ pattern })} style={chip(appearance.pattern === pattern)}>
+                    {FUR_PATTERNS[pattern].label}
+                  </button>
+                ))}
+              </div>
+
+              <div style={{ fontSize: '13px', color: '#8D6E63', fontWeight: 'bold', marginBottom: '6px' }}>Eyes</div>
+              <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '14px' }}>
+                {(Object.keys(EYE_COLORS) as EyeColor[]).map(eyes => (
+                  <button key={eyes} onClick={() => setAppearance({ eyes })} style={chip(appearance.eyes === eyes)}>
+                    {EYE_COLORS[eyes].label}
+                  </button>
+                ))}
+              </div>
+
+              <div style={{ fontSize: '13px', color: '#8D6E63', fontWeight: 'bold', marginBottom: '6px' }}>Ears</div>
+              <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '14px' }}>
+                {(Object.keys(EAR_SHAPES) as EarShape[]).map(ears => (
+                  <button key={ears} onClick={() => setAppearance({ ears })} style={chip(appearance.ears === ears)}>
+                    {EAR_SHAPES[ears].label}
+                  </button>
+                ))}
+              </div>
+
+              <div style={{ fontSize: '13px', color: '#8D6E63', fontWeight: 'bold', marginBottom: '6px' }}>Voice</div>
+              <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '14px' }}>
+                {VOICES.map(voice => (
+                  <button key={voice.name} onClick={() => setEditing({ ...editing, voice: voice.name })} style={chip(editing.voice === voice.name)}>
+                    {voice.label}
+                  </button>
+                ))}
+              </div>
+
+              <div style={{ fontSize: '13px', color: '#8D6E63', fontWeight: 'bold', marginBottom: '6px' }}>Personality</div>
+              <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '14px' }}>
+                {(Object.keys(CAT_TRAITS) as CatTrait[]).map(trait => {
+                  const on = editing.traits.includes(trait);
+                  return (
+                    <button
+                      key={trait}
+                      onClick={() => setEditing({
+                        ...editing,
+                        traits: on ? editing.traits.filter(t => t !== trait) : [...editing.traits, trait]
+                      })}
+                      style={chip(on)}
+                    >
+                      {CAT_TRAITS[trait].emoji} {CAT_TRAITS[trait].label}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div style={{ fontSize: '13px', color: '#8D6E63', fontWeight: 'bold', marginBottom: '6px' }}>Character</div>
+              <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '14px' }}>
+                {(Object.keys(CAT_ARCHETYPES) as CatArchetype[]).map(archetype => (
+                  <button
+                    key={archetype}
+                    onClick={() => setEditing({ ...editing, archetype: editing.archetype === archetype ? undefined : archetype })}
+                    style={chip(editing.archetype === archetype)}
+                  >
+                    {CAT_ARCHETYPES[archetype].emoji} {CAT_ARCHETYPES[archetype].label}
+                  </button>
+                ))}
+              </div>
+
+              <div style={{ display: 'flex', alignItems: 'center', marginBottom: '6px' }}>
+                <span style={{ fontSize: '13px', color: '#8D6E63', fontWeight: 'bold' }}>When it feels… it sounds like…</span>
+                {editing.emotions && (
+                  <button onClick={() => setEditing({ ...editing, emotions: undefined })} style={{
+                    marginLeft: 'auto', background: 'transparent', border: 'none', color: '#999',
+                    fontSize: '12px', cursor: 'pointer', textDecoration: 'underline'
+                  }}>
+                    Reset
+                  </button>
+                )}
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '20px' }}>
+                {emotions.map((rule, i) => (
+                  <div key={i} style={{ display: 'flex', gap: '4px' }}>
+                    <input
+                      value={rule.emotion}
+                      onChange={e => setEmotion(i, { emotion: e.target.value })}
+                      placeholder="Feeling"
+                      maxLength={80}
+                      style={{ width: '35%', boxSizing: 'border-box', padding: '8px', borderRadius: '10px', border: '1px solid #eee', fontSize: '13px' }}
+                    />
+                    <input
+                      value={rule.sounds}
+                      onChange={e => setEmotion(i, { sounds: e.target.value })}
+                      placeholder="Sounds"
+                      maxLength={80}
+                      style={{ flex: 1, minWidth: 0, padding: '8px', borderRadius: '10px', border: '1px solid #eee', fontSize: '13px' }}
+                    />
+                    <button
+                      onClick={() => setEditing({ ...editing, emotions: emotions.filter((_, j) => j !== i) })}
+                      title="Remove"
+                      style={{ background: 'transparent', border: 'none', color: '#999', cursor: 'pointer', fontSize: '16px' }}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                {emotions.length < MAX_EMOTION_RULES && (
+                  <button
+                    onClick={() => setEditing({ ...editing, emotions: [...emotions, { emotion: "", sounds: "" }] })}
+                    style={{ ...chip(false), alignSelf: 'flex-start' }}
+                  >
+                    + Add feeling
+                  </button>
+                )}
+              </div>
+
+              <button
+                onClick={() => { onSave(finished(editing)); setEditing(null); }}
+                disabled={!editing.name.trim()}
+                style={{
+                  width: '100%', padding: '15px', backgroundColor: '#FF9800', border: 'none', borderRadius: '12px',
+                  fontWeight: 'bold', color: 'white', cursor: 'pointer', opacity: editing.name.trim() ? 1 : 0.5
+                }}
+              >
+                Save
+              </button>
+              <div style={{ display: 'flex', gap: '10px', marginTop: '10px' }}>
+                <button onClick={() => setEditing(null)} style={{
+                  flex: 1, padding: '12px', backgroundColor: '#eee', border: 'none', borderRadius: '12px',
+                  fontWeight: 'bold', color: '#666', cursor: 'pointer'
+                }}>Back</button>
+                {profiles.length > 1 && profiles.some(p => p.id === editing.id) && (
+                  <button onClick={() => { onDelete(editing.id); setEditing(null); }} style={{
+                    flex: 1, padding: '12px', backgroundColor: '#FFEBEE', border: 'none', borderRadius: '12px',
+                    fontWeight: 'bold', color: '#E53935', cursor: 'pointer'
+                  }}>Delete</button>
+                )}
+              </div>
+            </>
+          ) : (
+            <>
+              <h3 style={{marginTop: 0, color: '#5D4037', textAlign: 'center'}}>Who are we talking to? 🐾</h3>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                {profiles.map(profile => (
+                  <div key={profile.id} style={{
+                    display: 'flex', alignItems: 'center', gap: '10px', padding: '10px 12px', borderRadius: '16px',
+                    backgroundColor: profile.id === activeId ? '#FFF3E0' : '#FAFAFA'
+                  }}>
+                    <button onClick={() => onSelect(profile.id)} style={{
+                      flex: 1, display: 'flex', alignItems: 'center', gap: '10px', background: 'transparent',
+                      border: 'none', cursor: 'pointer', textAlign: 'left', padding: 0
+                    }}>
+                      <span style={{ width: '14px', height: '14px', borderRadius: '50%', backgroundColor: profile.color, flexShrink: 0 }} />
+                      <span style={{ fontWeight: 'bold', color: '#5D4037' }}>{profile.name}</span>
+                      <span style={{ fontSize: '12px' }}>
+                        {profile.archetype && CAT_ARCHETYPES[profile.archetype].emoji}{profile.traits.map(t => CAT_TRAITS[t].emoji).join('')}
+                      </span>
+                    </button>
+                    <button onClick={() => setEditing(profile)} title="Edit" style={{
+                      background: 'transparent', border: 'none', cursor: 'pointer', fontSize: '16px'
+                    }}>✏️</button>
+                  </div>
+                ))}
+              </div>
+              <button onClick={() => setEditing(newProfile(profiles.length))} style={{
+                width: '100%', padding: '12px', marginTop: '12px', backgroundColor: '#FFF3E0',
+                border: '1px dashed #FFB74D', borderRadius: '12px', fontWeight: 'bold', color: '#E65100', cursor: 'pointer'
+              }}>+ Add a cat</button>
+              <button onClick={onClose} style={{
+                width: '100%', padding: '15px', marginTop: '12px',
+                backgroundColor: '#eee', border: 'none', borderRadius: '12px',
+                fontWeight: 'bold', color: '#666', cursor: 'pointer'
+              }}>Close</button>
+            </>
+          )}
+        </div>
+    </div>
+  );
+};
 
 const App = () => {
   const [connected, setConnected] = useState(false);
@@ -322,10 +723,21 @@ const App = () => {
   const [currentMood, setCurrentMood] = useState<Mood>(MOODS.NEUTRAL);
   const [textInput, setTextInput] = useState("");
   const [isGeneratingText, setIsGeneratingText] = useState(false);
-  const [selectedVoice, setSelectedVoice] = useState("Puck");
-  const [activeTab, setActiveTab] = useState<'phrases' | 'recent' | 'favorites'>('phrases');
+  const [isListening, setIsListening] = useState(false); // Recording the cat
+  const [profiles, setProfiles] = useState<CatProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [onlyActiveCat, setOnlyActiveCat] = useState(false); // Filter Recent/Favorites to this cat
+  const [pushToTalk, setPushToTalk] = useState(false); // Hold the mic to talk instead of VAD
+  const [isTransmitting, setIsTransmitting] = useState(false); // Mic audio is going to the model
+  const [isReconnecting, setIsReconnecting] = useState(false); // Live link dropped, retrying
+  const [activeTab, setActiveTab] = useState<'phrases' | 'recent' | 'favorites' | 'chats'>('phrases');
   const [showInstallHelp, setShowInstallHelp] = useState(false);
-  const [showVoiceModal, setShowVoiceModal] = useState(false);
+  const [showProfileModal, setShowProfileModal] = useState(false);
+  const [phrases, setPhrases] = useState<QuickPhrase[]>([]);
+  const [phraseCategory, setPhraseCategory] = useState<PhraseCategory | 'all'>('all');
+  const [editingPhrases, setEditingPhrases] = useState(false); // Grid shows edit and move controls
+  const [phraseDraft, setPhraseDraft] = useState<{ phrase: QuickPhrase, isNew: boolean } | null>(null);
+  const [preparingPhrases, setPreparingPhrases] = useState<number | null>(null); // Phrases left to pre-generate
   
   // Launch State
   const [hasLaunched, setHasLaunched] = useState(false);
@@ -335,6 +747,37 @@ const App = () => {
   // Data State
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [favorites, setFavorites] = useState<HistoryItem[]>([]);
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set());
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null); // Next page of Recent
+  const [favoritesCursor, setFavoritesCursor] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]); // Saved live sessions
+  const [conversationsCursor, setConversationsCursor] = useState<string | null>(null);
+  const [openConversation, setOpenConversation] = useState<Conversation | null>(null); // Thread being read
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null); // Translation cache hits/misses
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [queuedCount, setQueuedCount] = useState(0); // Translations waiting for the network
+
+  // Search, filters and bulk actions on Recent/Favorites
+  const [searchText, setSearchText] = useState("");
+  const [filters, setFilters] = useState<ListFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [searchResults, setSearchResults] = useState<HistoryItem[] | null>(null); // null when not searching
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [taggingItem, setTaggingItem] = useState<HistoryItem | null>(null);
+  const [detailItem, setDetailItem] = useState<HistoryItem | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [liveCaption, setLiveCaption] = useState({ user: '', cat: '' }); // Current live turn as text
+  const [undo, setUndo] = useState<{ removed: RemovedItems, message: string } | null>(null);
+  const [storageReady, setStorageReady] = useState(false); // Startup eviction done, safe to list
+
+  // The cat we're talking to picks the voice and personality
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
+  const selectedVoice = catVoice(activeProfile);
+  const persona = catPersona(activeProfile);
+  const listProfileId = onlyActiveCat ? activeProfile?.id : undefined;
+  const itemProfile = (item: HistoryItem) => profiles.find(p => p.id === item.profileId); // If it's still around
 
   // Init checks
   useEffect(() => {
@@ -357,68 +800,169 @@ const App = () => {
     return () => window.removeEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
   }, []);
 
+  // First page of Recent and Favorites, fresh from IndexedDB
+  const loadLists = async () => {
+    try {
+      const [h, f, ids, c] = await Promise.all([
+        storage.history.list({ profileId: listProfileId }),
+        storage.favorites.list({ profileId: listProfileId }),
+        storage.favorites.ids(),
+        storage.conversations.list({ profileId: listProfileId }),
+      ]);
+      setHistory(h.items);
+      setHistoryCursor(h.nextCursor);
+      setFavorites(f.items);
+      setFavoritesCursor(f.nextCursor);
+      setFavoriteIds(new Set(ids));
+      setConversations(c.items);
+      setConversationsCursor(c.nextCursor);
+      setAllTags(await storage.history.tags());
+    } catch (err) {
+      console.error("Failed to load data from DB", err);
+    }
+    setStorageUsage(await estimateStorage());
+    refreshCacheStats();
+  };
+
+  const refreshCacheStats = () => {
+    storage.translations.stats()
+      .then(setCacheStats)
+      .catch(err => console.error("Failed to read cache stats", err));
+  };
+
+  // Cats live in IndexedDB too; the very first run gets one to start with
+  const loadProfiles = async () => {
+    try {
+      let saved = await storage.profiles.all();
+      if (saved.length === 0) {
+        const first: CatProfile = { ...newProfile(0), name: "My Cat" };
+        await storage.profiles.put(first);
+        saved = [first];
+      }
+      const activeId = await storage.settings.get('activeProfileId');
+      setProfiles(saved);
+      setActiveProfileId(saved.some(p => p.id === activeId) ? activeId! : saved[0].id);
+    } catch (err) {
+      console.error("Failed to load cat profiles", err);
+    }
+  };
+
+  const loadPhrases = async () => {
+    try {
+      setPhrases(await storage.phrases.all());
+    } catch (err) {
+      console.error("Failed to load quick phrases", err);
+    }
+  };
+
   // Load Data from IndexedDB on Mount
   useEffect(() => {
-    const loadData = async () => {
-      try {
-        const [h, f] = await Promise.all([
-          dbAPI.getAll(STORE_HISTORY),
-          dbAPI.getAll(STORE_FAVORITES)
-        ]);
-        setHistory(h);
-        setFavorites(f);
-      } catch (err) {
-        console.error("Failed to load initial data from DB", err);
-      }
-    };
-    loadData();
+    // The dev server rebuilds modules on the fly, so only production gets the offline cache
+    if (import.meta.env.PROD) registerServiceWorker(`${import.meta.env.BASE_URL}sw.js`);
+    loadProfiles();
+    loadPhrases();
+    storage.evictHistory()
+      .catch(err => console.error("History eviction failed", err))
+      .then(() => setStorageReady(true));
   }, []);
+
+  // (Re)load the lists once storage is ready and whenever the cat filter changes
+  useEffect(() => {
+    if (storageReady) loadLists();
+  }, [storageReady, listProfileId]);
+
+  const selectProfile = async (id: string) => {
+    setActiveProfileId(id);
+    try {
+      await storage.settings.set('activeProfileId', id);
+    } catch (e) {
+      console.error("Failed to save active cat", e);
+    }
+  };
+
+  const saveProfile = async (profile: CatProfile) => {
+    try {
+      await storage.profiles.put(profile);
+      setProfiles(prev => prev.some(p => p.id === profile.id)
+        ? prev.map(p => p.id === profile.id ? profile : p)
+        : [...prev, profile]);
+    } catch (e) {
+      console.error("Failed to save cat", e);
+    }
+  };
+
+  // Saved clips keep their profileId; they just stop matching a filter
+  const deleteProfile = async (id: string) => {
+    if (profiles.length <= 1) return;
+    try {
+      await storage.profiles.delete(id);
+      const remaining = profiles.filter(p => p.id !== id);
+      setProfiles(remaining);
+      if (id === activeProfile?.id) await selectProfile(remaining[0].id);
+    } catch (e) {
+      console.error("Failed to delete cat", e);
+    }
+  };
   
   // Audio Refs
   const audioContextRef = useRef<AudioContext | null>(null);
-  const inputContextRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sessionRef = useRef<any>(null);
+  const playbackRef = useRef<PlaybackQueue | null>(null);
+  const sessionRef = useRef<LiveConnection | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const captureRef = useRef<MicCapture | null>(null);
+  const recorderRef = useRef<ConversationRecorder | null>(null); // Transcript of the live session
+  const captionDoneRef = useRef(false); // Last turn ended; the next transcript starts a new caption
+
+  // Live mic gating, read from the capture callback so they must be refs
+  const pushToTalkRef = useRef(false);
+  const talkHeldRef = useRef(false);
+  const transmittingRef = useRef(false);
+
+  // Cat recording ("What is my cat saying?")
+  const listenRef = useRef<{
+    stream: MediaStream;
+    capture: MicCapture;
+    chunks: ArrayBuffer[]; // PCM16 at INPUT_SAMPLE_RATE
+    timer: number;
+  } | null>(null);
   
   // Analyser Refs for Mood Detection
   const analyserRef = useRef<AnalyserNode | null>(null);
   const analysisFrameRef = useRef<number>(0);
+  const moodFromModelRef = useRef(false); // A translation said how the cat feels; don't second-guess it from the audio
   
   // Refs for auto-scrolling
   const listEndRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const flushingRef = useRef(false); // Offline queue is being translated
+  const undoTimerRef = useRef<number | null>(null);
 
-  // Effect to monitor audio levels when speaking
+  // Effect to analyse the cat's voice while it is speaking
   useEffect(() => {
     if (isSpeaking && analyserRef.current) {
-      const updateMood = () => {
+      const frames: FrameFeatures[] = []; // Analysed once as they arrive, the window only aggregates
+      let lastFrameTime = 0;
+
+      const updateMood = (now: number) => {
         const analyser = analyserRef.current;
         if (!analyser) return;
 
-        const dataArray = new Uint8Array(analyser.frequencyBinCount);
-        analyser.getByteFrequencyData(dataArray);
-
-        // Calculate average volume
-        let sum = 0;
-        for (let i = 0; i < dataArray.length; i++) {
-          sum += dataArray[i];
-        }
-        const average = sum / dataArray.length;
-
-        // Determine mood based on volume/intensity
-        if (average > 50) {
-            setCurrentMood(MOODS.EXCITED);
-        } else if (average > 20) {
-            setCurrentMood(MOODS.HAPPY);
-        } else if (average > 5) {
-            setCurrentMood(MOODS.RELAXED);
+        // Take back-to-back (non-overlapping) frames rather than one per animation frame
+        const frameSeconds = analyser.fftSize / analyser.context.sampleRate;
+        if (now - lastFrameTime >= frameSeconds * 1000) {
+          lastFrameTime = now;
+          const frame = new Float32Array(analyser.fftSize);
+          analyser.getFloatTimeDomainData(frame);
+          frames.push(analyzeFrame(frame, analyser.context.sampleRate));
+          if (frames.length > MOOD_WINDOW_SECONDS / frameSeconds) frames.shift();
+
+          const features = aggregateMoodFeatures(frames, frameSeconds);
+          if (features && !moodFromModelRef.current) setCurrentMood(MOODS[classifyMood(features)]);
         }
         
         analysisFrameRef.current = requestAnimationFrame(updateMood);
       };
-      updateMood();
+      analysisFrameRef.current = requestAnimationFrame(updateMood);
     } else if (!isSpeaking) {
       if (analysisFrameRef.current) {
         cancelAnimationFrame(analysisFrameRef.current);
@@ -432,19 +976,28 @@ const App = () => {
 
   const initAudioContext = async () => {
     if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({
-            sampleRate: OUTPUT_SAMPLE_RATE,
-        });
+        const AudioContextCtor = window.AudioContext || (window as any).webkitAudioContext;
+        try {
+            audioContextRef.current = new AudioContextCtor({ sampleRate: OUTPUT_SAMPLE_RATE });
+        } catch (e) {
+            // Can't run at 24kHz here; playPcm resamples to whatever rate we get
+            console.warn("Output context can't run at 24kHz", e);
+            audioContextRef.current = new AudioContextCtor();
+        }
     }
     
     // Ensure analyser is always attached
     if (!analyserRef.current && audioContextRef.current) {
         const analyser = audioContextRef.current.createAnalyser();
-        analyser.fftSize = 256;
+        analyser.fftSize = 2048; // ~85ms frames, long enough to track a cat's pitch
         analyser.connect(audioContextRef.current.destination);
         analyserRef.current = analyser;
     }
 
+    if (!playbackRef.current && audioContextRef.current) {
+        playbackRef.current = new PlaybackQueue(audioContextRef.current, () => setIsSpeaking(false));
+    }
+
     if (audioContextRef.current.state === 'suspended') {
         await audioContextRef.current.resume();
     }
@@ -456,88 +1009,121 @@ const App = () => {
       await initAudioContext();
       setStatus("Connecting...");
       
-      const ai = new GoogleGenAI({ apiKey: API_KEY });
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       streamRef.current = stream;
 
-      // Input Audio Context (Microphone -> 16kHz)
-      inputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: INPUT_SAMPLE_RATE,
-      });
+      // Mic capture starts on the first open and keeps running through reconnects;
+      // the connection buffers what is said while the link is down.
+      const startCapture = () => {
+        // Setup Microphone Stream (resampled to 16kHz whatever rate the mic runs at).
+        // Only speech (or audio while the mic is held in push-to-talk) is sent upstream.
+        const vad = new VoiceActivityDetector({ sampleRate: INPUT_SAMPLE_RATE });
+        let preRoll: ArrayBuffer | null = null;
+        const send = (pcm16: ArrayBuffer) => connection.sendAudio(base64Encode(pcm16));
+
+        startMicCapture(stream, {
+          targetSampleRate: INPUT_SAMPLE_RATE,
+          chunkSamples: INPUT_CHUNK_SAMPLES,
+          onChunk: (pcm16) => {
+            const speaking = vad.process(new Int16Array(pcm16));
+            const transmit = pushToTalkRef.current ? talkHeldRef.current : speaking;
+
+            if (transmit) {
+              // Barge-in: the cat stops talking as soon as you do
+              if (!transmittingRef.current) playbackRef.current?.stopAll();
+
+              // Include the chunk before VAD triggered so the first syllable isn't clipped
+              if (!transmittingRef.current && preRoll && !pushToTalkRef.current) send(preRoll);
+              send(pcm16);
+            } else if (transmittingRef.current) {
+              connection.endAudioStream();
+            }
+            preRoll = transmit ? null : pcm16;
 
-      const config = {
-        model: "gemini-2.0-flash-exp",
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: selectedVoice } },
+            if (transmit !== transmittingRef.current) {
+              transmittingRef.current = transmit;
+              setIsTransmitting(transmit);
+            }
           },
-          systemInstruction: SYSTEM_INSTRUCTION
-        },
+        }).then(capture => {
+          // Disconnected while the worklet was loading
+          if (streamRef.current !== stream) capture.stop();
+          else captureRef.current = capture;
+        }).catch(err => {
+          console.error(err);
+          setStatus("Microphone error");
+          disconnect();
+        });
       };
 
-      const sessionPromise = ai.live.connect({
-        model: config.model,
-        config: config.config,
-        callbacks: {
-          onopen: () => {
-            setStatus("Listening... 👂");
-            setConnected(true);
-            setCurrentMood(MOODS.NEUTRAL);
-
-            // Setup Microphone Stream
-            const inputCtx = inputContextRef.current!;
-            const source = inputCtx.createMediaStreamSource(stream);
-            const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-            
-            sourceRef.current = source;
-            processorRef.current = processor;
-
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcm16 = floatTo16BitPCM(inputData);
-              const base64 = base64Encode(pcm16);
-              
-              sessionPromise.then(session => {
-                session.sendRealtimeInput({
-                  media: {
-                    mimeType: "audio/pcm;rate=16000",
-                    data: base64
-                  }
-                });
-              });
-            };
-
-            source.connect(processor);
-            processor.connect(inputCtx.destination);
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            const { serverContent } = msg;
-            
-            // Handle Audio Output
-            if (serverContent?.modelTurn?.parts?.[0]?.inlineData) {
-              const audioData = serverContent.modelTurn.parts[0].inlineData.data;
-              if (audioData) {
-                playAudioChunk(audioData);
-              }
+      recorderRef.current = new ConversationRecorder({
+        profileId: activeProfile?.id,
+        voice: selectedVoice,
+        sampleRate: OUTPUT_SAMPLE_RATE,
+      });
+      setLiveCaption({ user: '', cat: '' });
+
+      let captureStarted = false;
+      const connection = createLiveConnection({
+        connect: (options, callbacks) => translator.connectLive(options, callbacks),
+        session: { voice: selectedVoice, persona },
+        onStateChange: (state, attempt) => {
+          if (state === 'open') {
+            setIsReconnecting(false);
+            setStatus(pushToTalkRef.current ? "Hold 🎙️ to talk ✋" : "Listening... 👂");
+            if (!captureStarted) {
+              captureStarted = true;
+              setConnected(true);
+              setCurrentMood(MOODS.NEUTRAL);
+              moodFromModelRef.current = false;
+              startCapture();
             }
+          } else if (state === 'reconnecting') {
+            setIsReconnecting(true);
+            setStatus(attempt > 1 ? `Reconnecting (try ${attempt})... 🔄` : "Reconnecting... 🔄");
+          }
+        },
+        onMessage: (msg: LiveMessage) => {
+          const recorder = recorderRef.current;
+
+          // Handle Audio Output
+          if (msg.audio) {
+            const pcm16 = base64Decode(msg.audio);
+            recorder?.addAudio(pcm16);
+            playPcm(pcm16);
+          }
 
-            if (serverContent?.turnComplete) {
-              setIsSpeaking(false);
-            }
-          },
-          onclose: () => {
-            disconnect();
-          },
-          onerror: (err) => {
-            console.error(err);
-            setStatus("Connection lost");
-            disconnect();
+          if (msg.inputTranscript || msg.outputTranscript) {
+            const fresh = captionDoneRef.current;
+            captionDoneRef.current = false;
+            if (msg.inputTranscript) recorder?.addUserText(msg.inputTranscript);
+            if (msg.outputTranscript) recorder?.addCatText(msg.outputTranscript);
+            setLiveCaption(prev => ({
+              user: (fresh ? '' : prev.user) + (msg.inputTranscript ?? ''),
+              cat: (fresh ? '' : prev.cat) + (msg.outputTranscript ?? ''),
+            }));
           }
+
+          // The model heard the user and dropped the rest of its reply
+          if (msg.interrupted) {
+            playbackRef.current?.stopAll();
+            saveTurn(recorder?.endTurn(true) ?? null);
+            captionDoneRef.current = true;
+          }
+
+          if (msg.turnComplete) {
+            saveTurn(recorder?.endTurn() ?? null);
+            captionDoneRef.current = true;
+          }
+        },
+        onClose: (err) => {
+          console.error(err);
+          disconnect();
+          setStatus("Connection lost 😿");
         }
       });
 
-      sessionRef.current = sessionPromise;
+      sessionRef.current = connection;
 
     } catch (e) {
       console.error(e);
@@ -545,8 +1131,56 @@ const App = () => {
     }
   };
 
-  const processTranslation = async (text: string) => {
-    if (!text.trim() || isGeneratingText) return;
+  // Cache key for saying `text` as a cat
+  const speechKey = (text: string, cat = activeProfile, voice = catVoice(cat)) =>
+    translationCacheKey({ text, voice, persona: catPersona(cat), backend: translator.name });
+
+  // Human text -> cat sounds -> the cat's voice (the active one unless given), from the cache
+  // if we've said it before. `reroll` skips the cache and replaces its entry with a fresh take.
+  const generateCatSpeech = async (text: string, { reroll = false, cat = activeProfile, voice = catVoice(cat) } = {}) => {
+    const key = speechKey(text, cat, voice);
+    if (!reroll) {
+      const hit = await storage.translations.lookup(key).catch(err => {
+        console.error("Translation cache lookup failed", err);
+        return undefined;
+      });
+      if (hit) {
+        const { catText, model, mood, intent } = hit.entry;
+        return { rawCatText: catText, model, mood, intent, audioId: hit.clip.id, pcm16: hit.clip.pcm16, sampleRate: hit.clip.sampleRate, cached: true };
+      }
+    }
+
+    // 1. Text Generation (Fast model to get the "Meow" text for the UI, plus a TTS-safe version)
+    const { catText: rawCatText, ttsText, mood, intent, model } = await translator.translateText(text, catPersona(cat));
+
+    // 2. Audio Generation (TTS Model)
+    let base64Audio = await translator.synthesize(ttsText, voice).catch(err => {
+        console.error("TTS failed", err);
+        return null;
+    });
+
+    // No audio from the model: synthesize the meows locally instead
+    if (!base64Audio) {
+        base64Audio = synthesizeCatAudio(ttsText);
+    }
+
+    const pcm16 = base64Decode(base64Audio);
+    const now = Date.now();
+    const audioId = `translation:${now}`;
+    storage.translations.put(
+      { key, catText: rawCatText, model, mood, intent, audioId, bytes: pcm16.byteLength, createdAt: now, lastUsedAt: now, hits: 0 },
+      { id: audioId, pcm16, sampleRate: OUTPUT_SAMPLE_RATE }
+    )
+      .then(() => storage.evictTranslations())
+      .catch(err => console.error("Failed to cache translation", err));
+    return { rawCatText, model, mood, intent, audioId, pcm16, sampleRate: OUTPUT_SAMPLE_RATE, cached: false };
+  };
+
+  // Returns what was said, or null if nothing was. Speaks as the active cat unless `cat` says
+  // otherwise; `voice` overrides the cat's own.
+  const processTranslation = async (text: string, options: { reroll?: boolean, cat?: CatProfile, voice?: string } = {}) => {
+    const { reroll, cat = activeProfile, voice = catVoice(cat) } = options;
+    if (!text.trim() || isGeneratingText) return null;
 
     // Disconnect live session if active to avoid confusion
     if (connected) disconnect();
@@ -556,150 +1190,677 @@ const App = () => {
     
     try {
         await initAudioContext();
-        
-        const ai = new GoogleGenAI({ apiKey: API_KEY });
 
-        // 1. Text Generation (Fast model to get the "Meow" text for the UI)
-        const textResult = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: [{ parts: [{ text: `You are a cat translator. Translate this human text into a short string of cat sounds (e.g. "Meow!", "Purrr", "Hiss"). Output ONLY the cat sounds. Text: "${text}"` }] }],
-        });
+        const speech = await generateCatSpeech(text, { reroll, cat, voice });
+        const { rawCatText, model, mood, intent, audioId, pcm16, sampleRate } = speech;
+        setStatus(speech.cached ? `Said: "${rawCatText}" ⚡` : `Said: "${rawCatText}"`);
 
-        const rawCatText = textResult.text?.trim() || "Meow?";
-        
-        // Strip emojis for TTS to avoid silence issues
-        const catText = rawCatText.replace(/[\u{1F600}-\u{1F6FF}]/gu, '').replace(/[^\w\s.,!?]/g, '').trim() || "Meow";
-        
-        setStatus(`Said: "${rawCatText}"`);
-
-        // 2. Audio Generation (TTS Model)
-        // Ensure we use a supported voice.
-        const audioResult = await ai.models.generateContent({
-             model: "gemini-2.5-flash-preview-tts",
-             contents: [{ parts: [{ text: catText }] }],
-             config: {
-                responseModalities: [Modality.AUDIO], 
-                speechConfig: {
-                    voiceConfig: { prebuiltVoiceConfig: { voiceName: selectedVoice } },
-                },
-             }
-        });
-        
-        // Robustly find the audio part
-        let base64Audio: string | undefined = undefined;
-        if (audioResult.candidates && audioResult.candidates.length > 0) {
-            for (const part of audioResult.candidates[0].content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    base64Audio = part.inlineData.data;
-                    break;
-                }
-            }
+        // The avatar wears the mood the model meant, not whatever the audio analysis guesses
+        const modelMood = mood && mood !== 'NEUTRAL' ? mood : undefined;
+        if (modelMood) {
+          setCurrentMood(MOODS[modelMood]);
+          moodFromModelRef.current = true;
         }
 
-        if (base64Audio) {
-            const newItem: HistoryItem = {
-              id: Date.now().toString(),
-              originalText: text,
-              catText: rawCatText,
-              audioBase64: base64Audio
-            };
-            
-            // Save to DB first
-            await dbAPI.add(STORE_HISTORY, newItem);
-            
-            // Then update state
-            setHistory(prev => [newItem, ...prev]);
-            setActiveTab('recent');
-
-            await playAudioChunk(base64Audio, () => {
-                setIsSpeaking(false);
-                setStatus("Ready");
-            });
-        } else {
-           // Fallback or just log, but do not crash the UI
-           console.error("No audio content in response", JSON.stringify(audioResult, null, 2));
-           setStatus("Could not generate audio");
-        }
+        const now = Date.now();
+        const newItem: HistoryItem = {
+          id: now.toString(),
+          createdAt: now,
+          profileId: cat?.id,
+          voice,
+          model,
+          durationMs: clipDuration(pcm16, sampleRate),
+          ...(modelMood ? { mood: modelMood } : {}),
+          ...(intent ? { intent } : {}),
+          originalText: text,
+          catText: rawCatText,
+          audioId // Shared with the translation cache
+        };
+
+        await saveToHistory(newItem, { id: audioId, pcm16, sampleRate });
+        setActiveTab('recent');
+        refreshCacheStats();
+
+        await playPcm(pcm16, () => {
+            setIsSpeaking(false);
+            setStatus("Ready");
+            moodFromModelRef.current = false;
+        }, sampleRate);
+        if (!newItem.mood) addClipMood(newItem.id, pcm16, sampleRate);
+        return speech;
     } catch (e) {
+        if (!navigator.onLine) {
+            await queueTranslation(text);
+            return null;
+        }
         console.error(e);
         setStatus("Error translating");
+        return null;
     } finally {
         setIsGeneratingText(false);
     }
   };
 
+  // Offline: keep the request and answer it once we're back
+  const queueTranslation = async (text: string) => {
+    try {
+      await storage.queue.add({ id: Date.now().toString(), text, profileId: activeProfile?.id, createdAt: Date.now() });
+      setQueuedCount(await storage.queue.count());
+      setStatus("You're offline. We'll translate this when you're back 📮");
+      requestNotificationPermission();
+    } catch (e) {
+      console.error("Failed to queue translation", e);
+      setStatus("You're offline 📴");
+    }
+  };
+
+  // Translate everything queued while offline, oldest first, then tell the user
+  const flushQueue = async () => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    let done = 0;
+    try {
+      for (const entry of await storage.queue.all()) {
+        if (!navigator.onLine) break;
+        const cat = profiles.find(p => p.id === entry.profileId) ?? activeProfile;
+        const { rawCatText, model, mood, intent, audioId, pcm16, sampleRate } = await generateCatSpeech(entry.text, { cat });
+
+        const now = Date.now();
+        const item: HistoryItem = {
+          id: now.toString(),
+          createdAt: now,
+          profileId: cat?.id,
+          voice: catVoice(cat),
+          model,
+          durationMs: clipDuration(pcm16, sampleRate),
+          ...(mood && mood !== 'NEUTRAL' ? { mood } : {}),
+          ...(intent ? { intent } : {}),
+          originalText: entry.text,
+          catText: rawCatText,
+          audioId
+        };
+        await saveToHistory(item, { id: audioId, pcm16, sampleRate });
+        if (!item.mood) addClipMood(item.id, pcm16, sampleRate);
+        await storage.queue.delete(entry.id);
+        done++;
+      }
+    } catch (e) {
+      console.error("Failed to translate queued text", e); // Left in the queue for next time
+    } finally {
+      flushingRef.current = false;
+      setQueuedCount(await storage.queue.count().catch(() => 0));
+    }
+
+    if (done > 0) {
+      const message = done === 1 ? "Your queued translation is ready 🐱" : `${done} queued translations are ready 🐱`;
+      setStatus(message);
+      refreshCacheStats();
+      if (document.visibilityState !== 'visible') await notify("Cat Translator", message);
+    }
+  };
+
+  // Follow connectivity; coming back online (or starting online) works through the queue
+  useEffect(() => {
+    if (!storageReady || profiles.length === 0) return;
+    const handleOnline = () => {
+      setIsOnline(true);
+      flushQueue();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    if (navigator.onLine) flushQueue();
+    else storage.queue.count().then(setQueuedCount).catch(() => {});
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [storageReady, profiles]);
+
+  // Remember a phrase's translation so the next tap plays without asking the model. The phrase
+  // shares the translation cache's clip, which then outlives the cache entry.
+  const cachePhraseAudio = async (phrase: QuickPhrase, catText: string, audio: AudioClip) => {
+    const cached: QuickPhrase = {
+      ...phrase,
+      audio: { key: speechKey(phrase.text), audioId: audio.id, catText },
+    };
+    await storage.phrases.putWithAudio(cached, audio);
+    setPhrases(prev => prev.map(p => p.id === phrase.id ? cached : p));
+  };
+
+  const playPhrase = async (phrase: QuickPhrase) => {
+    if (isGeneratingText) return;
+    const cached = phrase.audio?.key === speechKey(phrase.text) ? phrase.audio : undefined;
+    const clip = cached && await storage.audio.get(cached.audioId).catch(() => undefined);
+    if (cached && clip) {
+      if (connected) disconnect();
+      await initAudioContext();
+      setStatus(`Said: "${cached.catText}"`);
+
+      // Played from the phrase's own clip, but said all the same
+      const now = Date.now();
+      const item: HistoryItem = {
+        id: now.toString(),
+        createdAt: now,
+        profileId: activeProfile?.id,
+        voice: selectedVoice,
+        durationMs: clipDuration(clip.pcm16, clip.sampleRate),
+        originalText: phrase.text,
+        catText: cached.catText,
+        audioId: clip.id
+      };
+      try {
+        await saveToHistory(item, clip);
+        setActiveTab('recent');
+      } catch (e) {
+        console.error("Failed to save phrase to history", e);
+      }
+
+      playPcm(clip.pcm16, () => {
+        setIsSpeaking(false);
+        setStatus("Ready");
+      }, clip.sampleRate);
+      addClipMood(item.id, clip.pcm16, clip.sampleRate);
+      return;
+    }
+
+    const said = await processTranslation(phrase.text);
+    if (said) {
+      await cachePhraseAudio(phrase, said.rawCatText, { id: said.audioId, pcm16: said.pcm16, sampleRate: said.sampleRate })
+        .catch(err => console.error("Failed to cache phrase audio", err));
+    }
+  };
+
+  // Generate audio for every phrase the current cat doesn't have yet
+  const preparePhrases = async () => {
+    const pending = phrases.filter(p => p.audio?.key !== speechKey(p.text));
+    if (pending.length === 0) {
+      setStatus("All phrases are ready ⚡");
+      return;
+    }
+
+    let failed = 0;
+    for (let i = 0; i < pending.length; i++) {
+      setPreparingPhrases(pending.length - i);
+      try {
+        const { rawCatText, audioId, pcm16, sampleRate } = await generateCatSpeech(pending[i].text);
+        await cachePhraseAudio(pending[i], rawCatText, { id: audioId, pcm16, sampleRate });
+      } catch (err) {
+        console.error("Failed to prepare phrase", err);
+        failed++;
+      }
+    }
+    setPreparingPhrases(null);
+    setStatus(failed ? `${failed} phrases couldn't be prepared 😿` : "All phrases are ready ⚡");
+  };
+
+  const savePhrase = async (phrase: QuickPhrase) => {
+    try {
+      await storage.phrases.put(phrase);
+      setPhrases(prev => prev.some(p => p.id === phrase.id)
+        ? prev.map(p => p.id === phrase.id ? phrase : p)
+        : [...prev, phrase]);
+      setPhraseDraft(null);
+    } catch (e) {
+      console.error("Failed to save phrase", e);
+    }
+  };
+
+  const deletePhrase = async (id: string) => {
+    try {
+      await storage.phrases.delete(id);
+      setPhrases(prev => prev.filter(p => p.id !== id));
+      setPhraseDraft(null);
+    } catch (e) {
+      console.error("Failed to delete phrase", e);
+    }
+  };
+
+  // Swap with the neighbour that's visible in the current category
+  const movePhrase = async (id: string, direction: -1 | 1) => {
+    const visible = phrases.filter(p => phraseCategory === 'all' || p.category === phraseCategory);
+    const index = visible.findIndex(p => p.id === id);
+    const neighbour = visible[index + direction];
+    if (index < 0 || !neighbour) return;
+
+    const ordered = [...phrases];
+    const from = ordered.findIndex(p => p.id === id);
+    const to = ordered.findIndex(p => p.id === neighbour.id);
+    [ordered[from], ordered[to]] = [ordered[to], ordered[from]];
+    const reordered = ordered.map((p, order) => ({ ...p, order }));
+    setPhrases(reordered);
+    try {
+      await storage.phrases.reorder(reordered.map(p => p.id));
+    } catch (e) {
+      console.error("Failed to reorder phrases", e);
+      loadPhrases();
+    }
+  };
+
+  const addPhrase = () => {
+    const category = phraseCategory === 'all' ? 'general' : phraseCategory;
+    const order = phrases.length ? phrases[phrases.length - 1].order + 1 : 0;
+    setPhraseDraft({
+      phrase: { id: Date.now().toString(), label: "", emoji: PHRASE_CATEGORIES[category].emoji, text: "", category, order },
+      isNew: true,
+    });
+  };
+
+  const startListening = async () => {
+    if (listenRef.current || isGeneratingText) return;
+
+    // The live cat would hear itself, so stop it first
+    if (connected) disconnect();
+
+    try {
+      await initAudioContext();
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const chunks: ArrayBuffer[] = [];
+      const capture = await startMicCapture(stream, {
+        targetSampleRate: INPUT_SAMPLE_RATE,
+        chunkSamples: INPUT_CHUNK_SAMPLES,
+        onChunk: (pcm16) => chunks.push(pcm16),
+      });
+
+      listenRef.current = {
+        stream, capture, chunks,
+        timer: window.setTimeout(() => stopListening(), LISTEN_MAX_DURATION_MS),
+      };
+      setIsListening(true);
+      setCurrentMood(MOODS.NEUTRAL);
+      setStatus("Listening to your cat... 🐾");
+    } catch (e) {
+      console.error(e);
+      setStatus("Microphone error");
+    }
+  };
+
+  const stopListening = async () => {
+    const recording = listenRef.current;
+    if (!recording) return;
+    listenRef.current = null;
+
+    window.clearTimeout(recording.timer);
+    recording.capture.stop();
+    recording.stream.getTracks().forEach(track => track.stop());
+    setIsListening(false);
+
+    const totalBytes = recording.chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+    if (totalBytes === 0) {
+      setStatus("Didn't hear anything 🙉");
+      return;
+    }
+    const pcm16 = new Uint8Array(totalBytes);
+    let offset = 0;
+    for (const chunk of recording.chunks) {
+      pcm16.set(new Uint8Array(chunk), offset);
+      offset += chunk.byteLength;
+    }
+
+    await interpretCatAudio(pcm16.buffer, INPUT_SAMPLE_RATE);
+  };
+
+  const interpretCatAudio = async (pcm16: ArrayBuffer, sampleRate: number) => {
+    setIsGeneratingText(true);
+    setStatus("Decoding meows...");
+
+    try {
+      const interpretation = await translator.interpretCatAudio(pcm16, sampleRate);
+      if (!interpretation) {
+        setStatus("Couldn't understand that one 🤔");
+        return;
+      }
+
+      const now = Date.now();
+      const newItem: CatListenItem = {
+        id: now.toString(),
+        kind: 'listen',
+        createdAt: now,
+        profileId: activeProfile?.id,
+        ...interpretation,
+        durationMs: clipDuration(pcm16, sampleRate),
+        audioId: now.toString(),
+      };
+
+      await saveToHistory(newItem, { id: newItem.audioId, pcm16, sampleRate });
+      setActiveTab('recent');
+
+      setCurrentMood(MOODS[interpretation.mood]);
+      setStatus(`${VOCALIZATIONS[interpretation.vocalization].emoji} "${interpretation.interpretation}"`);
+    } catch (e) {
+      console.error(e);
+      setStatus("Error interpreting");
+    } finally {
+      setIsGeneratingText(false);
+    }
+  };
+
   const handleTextTranslate = async (e: React.FormEvent) => {
     e.preventDefault();
     await processTranslation(textInput);
     setTextInput("");
   };
 
+  // Save to DB first, then update state; old history is trimmed as new items come in
+  const saveToHistory = async (item: HistoryItem, audio: AudioClip) => {
+    await storage.history.save(item, audio);
+    setHistory(prev => [item, ...prev]);
+
+    try {
+      const evicted = new Set(await storage.evictHistory());
+      if (evicted.size > 0) setHistory(prev => prev.filter(i => !evicted.has(i.id)));
+    } catch (e) {
+      console.error("History eviction failed", e);
+    }
+    setStorageUsage(await estimateStorage());
+  };
+
+  // Fills in the mood heard in a new item's audio once it is already playing
+  const addClipMood = async (id: string, pcm16: ArrayBuffer, sampleRate: number) => {
+    const mood = await analyzeClipMoodWhenIdle(pcm16, sampleRate);
+    if (!mood) return;
+    try {
+      const item = await storage.history.get(id);
+      if (!item || item.mood) return;
+      const updated = { ...item, mood };
+      await storage.history.put(updated);
+      const replace = (list: HistoryItem[]) => list.map(i => i.id === updated.id ? updated : i);
+      setHistory(replace);
+      setFavorites(replace);
+      setSearchResults(prev => prev && replace(prev));
+    } catch (e) {
+      console.error("Failed to save clip mood", e);
+    }
+  };
+
   const toggleFavorite = async (item: HistoryItem) => {
-    const isFav = favorites.some(f => f.id === item.id);
-    
-    if (isFav) {
-      // Remove from favorites DB and state
-      await dbAPI.delete(STORE_FAVORITES, item.id);
-      setFavorites(prev => prev.filter(f => f.id !== item.id));
-    } else {
-      // Add to favorites DB and state
-      await dbAPI.add(STORE_FAVORITES, item);
-      setFavorites(prev => [item, ...prev]);
+    try {
+      if (favoriteIds.has(item.id)) {
+        // Remove from favorites DB and state
+        await storage.favorites.remove(item.id);
+        setFavorites(prev => prev.filter(f => f.id !== item.id));
+        setFavoriteIds(prev => new Set([...prev].filter(id => id !== item.id)));
+        if (activeTab === 'favorites') setSearchResults(prev => prev && prev.filter(f => f.id !== item.id));
+      } else {
+        // Add to favorites DB and state, keeping the list newest first like the DB pages it
+        await storage.favorites.add(item);
+        setFavorites(prev => [item, ...prev].sort((a, b) => b.createdAt - a.createdAt));
+        setFavoriteIds(prev => new Set(prev).add(item.id));
+      }
+    } catch (e) {
+      console.error("Failed to update favorites", e);
     }
   };
   
+  // What the search bar and filters ask for, or null to show the plain paged lists
+  const isItemTab = activeTab === 'recent' || activeTab === 'favorites'; // Searchable item lists
+
+  const buildSearchQuery = (): SearchQuery | null => {
+    const { from, to, voice, tag } = filters;
+    if (!searchText.trim() && !from && !to && !voice && !tag) return null;
+    return {
+      text: searchText,
+      tags: tag ? [tag] : [],
+      from: from ? new Date(`${from}T00:00:00`).getTime() : undefined,
+      to: to ? new Date(`${to}T23:59:59.999`).getTime() : undefined,
+      voice,
+      profileId: listProfileId,
+      scope: activeTab === 'favorites' ? 'favorites' : 'recent',
+    };
+  };
+
+  const runSearch = async () => {
+    const query = buildSearchQuery();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+    try {
+      setSearchResults(await storage.history.search(query));
+    } catch (e) {
+      console.error("Search failed", e);
+    }
+  };
+
+  // Typing settles before we hit the database
+  useEffect(() => {
+    if (!isItemTab || !storageReady) return;
+    const timer = window.setTimeout(runSearch, 200);
+    return () => window.clearTimeout(timer);
+  }, [searchText, filters, activeTab, listProfileId, storageReady]);
+
+  // Leaving a list drops its selection
+  useEffect(() => {
+    setSelecting(false);
+    setSelectedIds(new Set());
+  }, [activeTab]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const showUndo = (removed: RemovedItems, message: string) => {
+    if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+    setUndo({ removed, message });
+    undoTimerRef.current = window.setTimeout(() => setUndo(null), UNDO_TIMEOUT_MS);
+  };
+
+  // Recent hides or deletes like Clear All does; Favorites just unfavorites
+  const deleteSelected = async () => {
+    const ids = [...selectedIds];
+    if (ids.length === 0) return;
+    try {
+      const removed = activeTab === 'favorites'
+        ? await storage.favorites.removeMany(ids)
+        : await storage.history.deleteMany(ids);
+      const gone = new Set(ids);
+      if (activeTab === 'favorites') {
+        setFavorites(prev => prev.filter(i => !gone.has(i.id)));
+        setFavoriteIds(prev => new Set([...prev].filter(id => !gone.has(id))));
+      } else {
+        setHistory(prev => prev.filter(i => !gone.has(i.id)));
+      }
+      setSearchResults(prev => prev && prev.filter(i => !gone.has(i.id)));
+      setSelectedIds(new Set());
+      setSelecting(false);
+      showUndo(removed, activeTab === 'favorites'
+        ? `Removed ${ids.length} from favorites`
+        : `Deleted ${ids.length} ${ids.length === 1 ? 'item' : 'items'}`);
+      setStorageUsage(await estimateStorage());
+    } catch (e) {
+      console.error("Failed to delete items", e);
+      setStatus("Couldn't delete those 😿");
+    }
+  };
+
+  const undoDelete = async () => {
+    if (!undo) return;
+    if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+    setUndo(null);
+    try {
+      await storage.history.restore(undo.removed);
+      await loadLists();
+      await runSearch();
+    } catch (e) {
+      console.error("Undo failed", e);
+      setStatus("Couldn't undo that 😿");
+    }
+  };
+
+  const saveTags = async (item: HistoryItem, tags: string[]) => {
+    setTaggingItem(null);
+    try {
+      const updated = await storage.history.setTags(item.id, tags);
+      if (!updated) return;
+      const replace = (list: HistoryItem[]) => list.map(i => i.id === updated.id ? updated : i);
+      setHistory(replace);
+      setFavorites(replace);
+      setSearchResults(prev => prev && replace(prev));
+      setAllTags(await storage.history.tags());
+    } catch (e) {
+      console.error("Failed to save tags", e);
+    }
+  };
+
   const clearRecent = async () => {
-      await dbAPI.clear(STORE_HISTORY);
+      await storage.history.clear();
       setHistory([]);
+      setHistoryCursor(null);
+      setStorageUsage(await estimateStorage());
+  };
+
+  const handleExport = async () => {
+    try {
+      setStatus("Packing up meows... 📦");
+      const archive = await exportArchive(storage);
+      downloadBlob(archive, `cat-translator-${new Date().toISOString().slice(0, 10)}.zip`);
+      setStatus("Backup saved 📦");
+    } catch (e) {
+      console.error(e);
+      setStatus("Export failed");
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+
+    try {
+      setStatus("Unpacking meows... 📦");
+      const { added, skipped, favoritesAdded } = await importArchive(file, storage);
+      await loadLists();
+      setStatus(`Imported ${added} new, ${skipped} already here, ${favoritesAdded} favorites ⭐`);
+    } catch (err) {
+      console.error(err);
+      setStatus(err instanceof ArchiveError ? err.message : "Import failed");
+    }
+  };
+
+  const loadMoreHistory = async () => {
+    if (!historyCursor) return;
+    const page = await storage.history.list({ cursor: historyCursor, profileId: listProfileId });
+    setHistory(prev => [...prev, ...page.items]);
+    setHistoryCursor(page.nextCursor);
+  };
+
+  const loadMoreFavorites = async () => {
+    if (!favoritesCursor) return;
+    const page = await storage.favorites.list({ cursor: favoritesCursor, profileId: listProfileId });
+    setFavorites(prev => [...prev, ...page.items]);
+    setFavoritesCursor(page.nextCursor);
+  };
+
+  const isFavorite = (id: string) => favoriteIds.has(id);
+
+  // Saved items and conversation turns keep their audio in its own store
+  const playClip = async (audioId: string) => {
+    await initAudioContext();
+    const clip = await storage.audio.get(audioId);
+    if (!clip) {
+      setStatus("That recording is gone 🙀");
+      return;
+    }
+    playPcm(clip.pcm16, () => setIsSpeaking(false), clip.sampleRate);
   };
 
-  const isFavorite = (id: string) => favorites.some(f => f.id === id);
+  const playSavedItem = (item: HistoryItem) => playClip(item.audioId);
+
+  // Each finished turn rewrites the whole conversation, so a dropped session loses at most one turn
+  const saveTurn = (recorded: RecordedTurn | null) => {
+    if (!recorded) return;
+    const { conversation, audio } = recorded;
+    storage.conversations.save(conversation, audio)
+      .then(() => {
+        setConversations(prev => [conversation, ...prev.filter(c => c.id !== conversation.id)]);
+        setOpenConversation(prev => prev?.id === conversation.id ? conversation : prev);
+      })
+      .catch(err => console.error("Failed to save conversation", err));
+  };
+
+  const loadMoreConversations = async () => {
+    if (!conversationsCursor) return;
+    const page = await storage.conversations.list({ cursor: conversationsCursor, profileId: listProfileId });
+    setConversations(prev => [...prev, ...page.items]);
+    setConversationsCursor(page.nextCursor);
+  };
+
+  const deleteConversation = async (conversation: Conversation) => {
+    try {
+      await storage.conversations.delete(conversation.id);
+      setConversations(prev => prev.filter(c => c.id !== conversation.id));
+      setOpenConversation(null);
+      setStorageUsage(await estimateStorage());
+    } catch (e) {
+      console.error("Failed to delete conversation", e);
+    }
+  };
+
+  // What a saved item says, for share sheets and the clipboard
+  const itemCaption = (item: HistoryItem) => item.kind === 'listen'
+    ? `${VOCALIZATIONS[item.vocalization].emoji} My cat says: "${item.interpretation}"`
+    : `"${item.originalText}" in cat: ${item.catText} 🐱`;
+
+  const itemWavFile = async (item: HistoryItem) => {
+    const clip = await storage.audio.get(item.audioId);
+    if (!clip) return null;
+    const name = `${item.kind === 'listen' ? 'my-cat' : 'meow'}-${item.id}.wav`;
+    return new File([encodeWav(clip.pcm16, clip.sampleRate)], name, { type: 'audio/wav' });
+  };
 
-  const playAudioChunk = async (base64Audio: string, onEnded?: () => void) => {
+  const downloadItem = async (item: HistoryItem) => {
+    try {
+      const file = await itemWavFile(item);
+      if (!file) {
+        setStatus("That recording is gone 🙀");
+        return;
+      }
+      downloadBlob(file, file.name);
+    } catch (e) {
+      console.error(e);
+      setStatus("Couldn't download that one");
+    }
+  };
+
+  const shareItem = async (item: HistoryItem) => {
+    try {
+      const file = await itemWavFile(item);
+      if (!file) {
+        setStatus("That recording is gone 🙀");
+        return;
+      }
+      const outcome = await shareClip({ file, title: "Cat Translator", text: itemCaption(item) });
+      if (outcome === 'copied') setStatus("Caption copied to clipboard 📋");
+    } catch (e) {
+      console.error(e);
+      setStatus("Couldn't share that one");
+    }
+  };
+
+  const playPcm = async (arrayBuffer: ArrayBuffer, onEnded?: () => void, sampleRate = OUTPUT_SAMPLE_RATE) => {
     try {
       const ctx = audioContextRef.current;
-      if (!ctx) return;
+      const playback = playbackRef.current;
+      if (!ctx || !playback) return;
 
-      const arrayBuffer = base64Decode(base64Audio);
       if (arrayBuffer.byteLength % 2 !== 0) {
         console.warn("Audio buffer has odd byte length, trimming last byte");
       }
       
-      const dataView = new DataView(arrayBuffer);
-      const length = Math.floor(arrayBuffer.byteLength / 2);
-      const float32Data = new Float32Array(length);
-      
-      for (let i = 0; i < length; i++) {
-          const sample = dataView.getInt16(i * 2, true);
-          float32Data[i] = sample / 32768.0;
-      }
+      // Convert ourselves if the browser didn't give us a context at the clip's rate
+      const float32Data = resample(pcm16ToFloat(arrayBuffer), sampleRate, ctx.sampleRate);
 
-      const buffer = ctx.createBuffer(1, float32Data.length, OUTPUT_SAMPLE_RATE);
+      const buffer = ctx.createBuffer(1, float32Data.length, ctx.sampleRate);
       buffer.getChannelData(0).set(float32Data);
 
-      const source = ctx.createBufferSource();
-      source.buffer = buffer;
-      
-      if (analyserRef.current) {
-          source.connect(analyserRef.current);
-      } else {
-          source.connect(ctx.destination);
-      }
-
-      source.onended = () => {
-          if (onEnded) onEnded();
-      };
-      
+      playback.enqueue(buffer, analyserRef.current ?? ctx.destination, onEnded);
       setIsSpeaking(true);
-      
-      const currentTime = ctx.currentTime;
-      if (nextStartTimeRef.current < currentTime) {
-        nextStartTimeRef.current = currentTime;
-      }
-      
-      source.start(nextStartTimeRef.current);
-      nextStartTimeRef.current += buffer.duration;
-      
+
     } catch (err) {
       console.error("Error playing audio chunk:", err);
       setIsSpeaking(false);
@@ -710,10 +1871,20 @@ const App = () => {
   const disconnect = () => {
     setConnected(false);
     setIsSpeaking(false);
+    setIsTransmitting(false);
+    setIsReconnecting(false);
+    transmittingRef.current = false;
+    talkHeldRef.current = false;
     setCurrentMood(MOODS.NEUTRAL);
     setStatus("Cat is sleeping. 💤");
 
+    // Whatever was said since the last finished turn
+    saveTurn(recorderRef.current?.endTurn() ?? null);
+    recorderRef.current = null;
+    setLiveCaption({ user: '', cat: '' });
+
     if (sessionRef.current) {
+        sessionRef.current.close();
         sessionRef.current = null;
     }
 
@@ -721,17 +1892,9 @@ const App = () => {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
-    if (processorRef.current) {
-        processorRef.current.disconnect();
-        processorRef.current = null;
-    }
-    if (sourceRef.current) {
-        sourceRef.current.disconnect();
-        sourceRef.current = null;
-    }
-    if (inputContextRef.current) {
-        inputContextRef.current.close();
-        inputContextRef.current = null;
+    if (captureRef.current) {
+        captureRef.current.stop();
+        captureRef.current = null;
     }
     
     if (analyserRef.current) {
@@ -739,10 +1902,29 @@ const App = () => {
         analyserRef.current = null;
     }
 
-    nextStartTimeRef.current = 0;
+    playbackRef.current?.stopAll();
     if (analysisFrameRef.current) cancelAnimationFrame(analysisFrameRef.current);
   };
 
+  // Push-to-talk: pressing the mic connects if needed and transmits until released
+  const startTalking = (e: React.PointerEvent<HTMLButtonElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    talkHeldRef.current = true;
+    if (!connected && !sessionRef.current) startSession();
+  };
+
+  const stopTalking = () => {
+    talkHeldRef.current = false;
+  };
+
+  const toggleTalkMode = () => {
+    const next = !pushToTalk;
+    setPushToTalk(next);
+    pushToTalkRef.current = next;
+    talkHeldRef.current = false;
+    if (connected) setStatus(next ? "Hold 🎙️ to talk ✋" : "Listening... 👂");
+  };
+
   const handleInstallClick = () => {
     if (deferredPrompt) {
         deferredPrompt.prompt();
@@ -757,41 +1939,339 @@ const App = () => {
     }
   };
 
-  const renderPhrases = () => (
-    <div style={{ padding: '20px', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', paddingBottom: '100px' }}>
-      {QUICK_PHRASES.map((phrase) => (
-        <button
-          key={phrase.text}
-          disabled={isGeneratingText}
-          onClick={() => processTranslation(phrase.text)}
-          style={{
-            padding: '20px',
-            backgroundColor: '#FFF3E0', // Light Orange
-            border: 'none',
-            borderRadius: '16px',
-            color: '#E65100',
-            fontWeight: 'bold',
-            fontSize: '16px',
-            cursor: 'pointer',
-            boxShadow: '0 2px 4px rgba(0,0,0,0.05)',
-            display: 'flex',
-            flexDirection: 'column',
-            alignItems: 'center',
-            gap: '8px',
-            transition: 'transform 0.1s',
-            opacity: isGeneratingText ? 0.6 : 1
-          }}
-          onMouseDown={e => e.currentTarget.style.transform = 'scale(0.98)'}
-          onMouseUp={e => e.currentTarget.style.transform = 'scale(1)'}
-        >
-          <span style={{ fontSize: '24px' }}>{phrase.label.split(' ')[1]}</span>
-          <span>{phrase.label.split(' ')[0]}</span>
-        </button>
-      ))}
-    </div>
-  );
+  const renderPhrases = () => {
+    const visible = phrases.filter(p => phraseCategory === 'all' || p.category === phraseCategory);
+    const pill = (selected: boolean): React.CSSProperties => ({
+      padding: '6px 12px', borderRadius: '16px', border: 'none', cursor: 'pointer', whiteSpace: 'nowrap',
+      backgroundColor: selected ? '#FF9800' : '#F5F5F5', color: selected ? 'white' : '#8D6E63',
+      fontSize: '12px', fontWeight: 'bold'
+    });
+    const iconButton: React.CSSProperties = {
+      background: 'white', border: 'none', borderRadius: '8px', padding: '4px 6px',
+      fontSize: '12px', cursor: 'pointer', boxShadow: '0 1px 2px rgba(0,0,0,0.1)'
+    };
+
+    return (
+      <div style={{ padding: '20px', paddingBottom: '100px' }}>
+        {/* Categories */}
+        <div style={{ display: 'flex', gap: '6px', overflowX: 'auto', marginBottom: '12px', paddingBottom: '4px' }}>
+          <button onClick={() => setPhraseCategory('all')} style={pill(phraseCategory === 'all')}>All</button>
+          {(Object.keys(PHRASE_CATEGORIES) as PhraseCategory[]).map(category => (
+            <button key={category} onClick={() => setPhraseCategory(category)} style={pill(phraseCategory === category)}>
+              {PHRASE_CATEGORIES[category].emoji} {PHRASE_CATEGORIES[category].label}
+            </button>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px', marginBottom: '12px' }}>
+          <button
+            onClick={preparePhrases}
+            disabled={preparingPhrases !== null || isGeneratingText}
+            title="Pre-generate audio so phrases play instantly"
+            style={{ background: 'transparent', border: 'none', color: '#8D6E63', fontSize: '12px', cursor: 'pointer', textDecoration: 'underline' }}
+          >
+            {preparingPhrases !== null ? `Preparing... ${preparingPhrases} left` : "⚡ Prepare audio"}
+          </button>
+          <button
+            onClick={() => setEditingPhrases(prev => !prev)}
+            style={{ background: 'transparent', border: 'none', color: '#8D6E63', fontSize: '12px', cursor: 'pointer', textDecoration: 'underline' }}
+          >
+            {editingPhrases ? "Done" : "✏️ Edit"}
+          </button>
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+          {visible.map((phrase, index) => {
+            const ready = phrase.audio?.key === speechKey(phrase.text);
+            return (
+              <div key={phrase.id} style={{ position: 'relative' }}>
+                <button
+                  disabled={isGeneratingText && !editingPhrases}
+                  onClick={() => editingPhrases ? setPhraseDraft({ phrase, isNew: false }) : playPhrase(phrase)}
+                  style={{
+                    width: '100%',
+                    padding: '20px',
+                    backgroundColor: '#FFF3E0', // Light Orange
+                    border: editingPhrases ? '2px dashed #FFB74D' : '2px solid transparent',
+                    borderRadius: '16px',
+                    color: '#E65100',
+                    fontWeight: 'bold',
+                    fontSize: '16px',
+                    cursor: 'pointer',
+                    boxShadow: '0 2px 4px rgba(0,0,0,0.05)',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    gap: '8px',
+                    transition: 'transform 0.1s',
+                    opacity: isGeneratingText && !editingPhrases ? 0.6 : 1
+                  }}
+                  onMouseDown={e => e.currentTarget.style.transform = 'scale(0.98)'}
+                  onMouseUp={e => e.currentTarget.style.transform = 'scale(1)'}
+                >
+                  <span style={{ fontSize: '24px' }}>{phrase.emoji}</span>
+                  <span>{phrase.label}</span>
+                </button>
+
+                {ready && !editingPhrases && (
+                  <span title="Plays instantly" style={{ position: 'absolute', top: '8px', right: '10px', fontSize: '11px' }}>⚡</span>
+                )}
+
+                {editingPhrases && (
+                  <div style={{ position: 'absolute', top: '6px', right: '6px', display: 'flex', gap: '4px' }}>
+                    {index > 0 && <button onClick={() => movePhrase(phrase.id, -1)} title="Move earlier" style={iconButton}>◀</button>}
+                    {index < visible.length - 1 && <button onClick={() => movePhrase(phrase.id, 1)} title="Move later" style={iconButton}>▶</button>}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {editingPhrases && (
+            <button onClick={addPhrase} style={{
+              padding: '20px', backgroundColor: 'white', border: '2px dashed #FFB74D', borderRadius: '16px',
+              color: '#E65100', fontWeight: 'bold', fontSize: '16px', cursor: 'pointer'
+            }}>
+              + Add
+            </button>
+          )}
+        </div>
+
+        {visible.length === 0 && !editingPhrases && (
+          <div style={{ textAlign: 'center', color: '#aaa', fontStyle: 'italic', padding: '30px 0' }}>
+            No phrases here yet. Tap ✏️ Edit to add one.
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderConversations = () => {
+    const profileName = (id?: string) => profiles.find(p => p.id === id)?.name;
+
+    if (openConversation) {
+      const { turns } = openConversation;
+      return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', paddingBottom: '100px' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '6px' }}>
+            <button onClick={() => setOpenConversation(null)} style={{
+              background: 'transparent', border: 'none', color: '#E65100', fontWeight: 'bold', fontSize: '14px', cursor: 'pointer', padding: 0
+            }}>
+              ← Chats
+            </button>
+            <span style={{ flex: 1, textAlign: 'center', fontSize: '12px', color: '#999' }}>
+              {profileName(openConversation.profileId) ?? 'Cat'} · {new Date(openConversation.createdAt).toLocaleString()}
+            </span>
+            <button onClick={() => deleteConversation(openConversation)} title="Delete chat" style={{
+              background: 'transparent', border: 'none', fontSize: '16px', cursor: 'pointer', padding: 0
+            }}>
+              🗑️
+            </button>
+          </div>
+
+          {turns.map((turn, i) => (
+            <React.Fragment key={i}>
+              {turn.userText && (
+                <div style={{
+                  alignSelf: 'flex-end', maxWidth: '80%', padding: '10px 14px', borderRadius: '16px 16px 4px 16px',
+                  backgroundColor: '#F5F5F5', color: '#333', fontSize: '15px'
+                }}>
+                  {turn.userText}
+                </div>
+              )}
+              {(turn.catText || turn.audioId) && (
+                <div style={{ alignSelf: 'flex-start', display: 'flex', alignItems: 'center', gap: '6px', maxWidth: '85%' }}>
+                  <div style={{
+                    padding: '10px 14px', borderRadius: '16px 16px 16px 4px', backgroundColor: '#FFF3E0',
+                    color: '#E65100', fontSize: '15px', fontWeight: 'bold'
+                  }}>
+                    🐱 {turn.catText || '…'}{turn.interrupted ? ' —' : ''}
+                    <div style={{ fontSize: '11px', fontWeight: 'normal', color: '#A1887F', marginTop: '2px' }}>
+                      {turn.mood && MOODS[turn.mood] ? `${MOODS[turn.mood].emoji} ${MOODS[turn.mood].label}` : ''}
+                      {turn.durationMs !== undefined ? ` · ${(turn.durationMs / 1000).toFixed(1)}s` : ''}
+                    </div>
+                  </div>
+                  {turn.audioId && (
+                    <button onClick={() => playClip(turn.audioId!)} title="Play" style={{
+                      background: 'transparent', border: 'none', fontSize: '16px', cursor: 'pointer', padding: '4px'
+                    }}>
+                      🔊
+                    </button>
+                  )}
+                </div>
+              )}
+            </React.Fragment>
+          ))}
+        </div>
+      );
+    }
+
+    if (conversations.length === 0) {
+      return (
+        <div style={{ 
+          display: 'flex', 
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          padding: '40px 20px',
+          color: '#aaa',
+          fontStyle: 'italic',
+          height: '100%'
+        }}>
+          <span style={{ fontSize: '40px', marginBottom: '10px', opacity: 0.3 }}>🐾</span>
+          Tap the mic to chat live. Your conversations show up here.
+        </div>
+      );
+    }
+
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', paddingBottom: '100px' }}>
+        {conversations.map(conversation => {
+          const first = conversation.turns.find(t => t.userText || t.catText);
+          const profile = profiles.find(p => p.id === conversation.profileId);
+          return (
+            <button key={conversation.id} onClick={() => setOpenConversation(conversation)} style={{
+              backgroundColor: '#fff', padding: '16px', borderRadius: '16px', textAlign: 'left', cursor: 'pointer',
+              boxShadow: '0 2px 8px rgba(0,0,0,0.04)', border: '1px solid #f0f0f0'
+            }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#999', marginBottom: '4px' }}>
+                {profile && <span style={{ width: '8px', height: '8px', borderRadius: '50%', backgroundColor: profile.color }} />}
+                {profile?.name ?? 'Cat'} · {new Date(conversation.createdAt).toLocaleString()}
+                <span style={{ marginLeft: 'auto' }}>💬 {conversation.turns.length}</span>
+              </div>
+              <div style={{ fontSize: '15px', color: '#333', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {first?.userText ? `"${first.userText}"` : `🐱 ${first?.catText ?? '…'}`}
+              </div>
+            </button>
+          );
+        })}
+        {conversationsCursor && (
+          <button
+            onClick={loadMoreConversations}
+            style={{
+              alignSelf: 'center',
+              background: 'transparent',
+              border: '1px solid #FFE0B2',
+              borderRadius: '20px',
+              padding: '8px 20px',
+              color: '#E65100',
+              fontSize: '13px',
+              cursor: 'pointer'
+            }}
+          >
+            Load more
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderSearchBar = (items: HistoryItem[]) => {
+    const activeFilters = [filters.from, filters.to, filters.voice, filters.tag].filter(Boolean).length;
+    const allSelected = items.length > 0 && items.every(i => selectedIds.has(i.id));
+    const inputStyle: React.CSSProperties = {
+      padding: '8px 10px', borderRadius: '10px', border: '1px solid #eee',
+      fontSize: '13px', backgroundColor: 'white', color: '#5D4037', minWidth: 0
+    };
+    const pillStyle = (active: boolean): React.CSSProperties => ({
+      padding: '8px 12px', borderRadius: '16px', border: 'none', cursor: 'pointer', flexShrink: 0,
+      backgroundColor: active ? '#FFF3E0' : '#F5F5F5',
+      color: active ? '#E65100' : '#8D6E63', fontSize: '12px', fontWeight: 'bold'
+    });
+
+    return (
+      <div style={{ marginBottom: '12px' }}>
+        <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+          <input
+            type="search"
+            value={searchText}
+            onChange={e => setSearchText(e.target.value)}
+            placeholder="🔍 Search what you said or meowed"
+            style={{ ...inputStyle, flex: 1, fontSize: '14px', padding: '10px 12px' }}
+          />
+          <button onClick={() => setShowFilters(prev => !prev)} style={pillStyle(showFilters || activeFilters > 0)}>
+            Filters{activeFilters > 0 ? ` (${activeFilters})` : ''}
+          </button>
+          <button
+            onClick={() => { setSelecting(prev => !prev); setSelectedIds(new Set()); }}
+            style={pillStyle(selecting)}
+          >
+            {selecting ? 'Done' : 'Select'}
+          </button>
+        </div>
+
+        {showFilters && (
+          <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginTop: '8px', alignItems: 'center' }}>
+            <input
+              type="date"
+              value={filters.from ?? ''}
+              onChange={e => setFilters(prev => ({ ...prev, from: e.target.value || undefined }))}
+              title="From"
+              style={inputStyle}
+            />
+            <span style={{ color: '#aaa', fontSize: '12px' }}>–</span>
+            <input
+              type="date"
+              value={filters.to ?? ''}
+              onChange={e => setFilters(prev => ({ ...prev, to: e.target.value || undefined }))}
+              title="To"
+              style={inputStyle}
+            />
+            <select
+              value={filters.voice ?? ''}
+              onChange={e => setFilters(prev => ({ ...prev, voice: e.target.value || undefined }))}
+              style={inputStyle}
+            >
+              <option value="">Any voice</option>
+              {VOICES.map(voice => <option key={voice.name} value={voice.name}>{voice.label}</option>)}
+            </select>
+            <select
+              value={filters.tag ?? ''}
+              onChange={e => setFilters(prev => ({ ...prev, tag: e.target.value || undefined }))}
+              style={inputStyle}
+            >
+              <option value="">Any tag</option>
+              {allTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+            </select>
+            {activeFilters > 0 && (
+              <button
+                onClick={() => setFilters({})}
+                style={{ background: 'transparent', border: 'none', color: '#999', fontSize: '12px', cursor: 'pointer', textDecoration: 'underline' }}
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        )}
+
+        {selecting && (
+          <div style={{ display: 'flex', gap: '6px', marginTop: '8px', alignItems: 'center' }}>
+            <button
+              onClick={() => setSelectedIds(allSelected ? new Set() : new Set(items.map(i => i.id)))}
+              style={pillStyle(allSelected)}
+            >
+              {allSelected ? 'Select none' : 'Select all'}
+            </button>
+            <button
+              onClick={deleteSelected}
+              disabled={selectedIds.size === 0}
+              style={{
+                ...pillStyle(false),
+                marginLeft: 'auto',
+                backgroundColor: selectedIds.size > 0 ? '#E53935' : '#F5F5F5',
+                color: selectedIds.size > 0 ? 'white' : '#bbb',
+                cursor: selectedIds.size > 0 ? 'pointer' : 'default'
+              }}
+            >
+              {activeTab === 'favorites' ? 'Unfavorite' : 'Delete'} ({selectedIds.size})
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
 
-  const renderList = (items: HistoryItem[], emptyMessage: string) => {
+  const renderList = (items: HistoryItem[], emptyMessage: string, onLoadMore?: () => void) => {
     if (items.length === 0) {
       return (
         <div style={{ 
@@ -813,25 +2293,73 @@ const App = () => {
     return (
       <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', paddingBottom: '100px' }}>
         {items.map(item => (
-          <div key={item.id} style={{
-            backgroundColor: '#fff',
+          <div key={item.id} onClick={selecting ? () => toggleSelected(item.id) : undefined} style={{
+            backgroundColor: selectedIds.has(item.id) ? '#FFF3E0' : '#fff',
             padding: '16px',
             borderRadius: '16px',
             boxShadow: '0 2px 8px rgba(0,0,0,0.04)',
-            border: '1px solid #f0f0f0',
+            border: selectedIds.has(item.id) ? '1px solid #FFB74D' : '1px solid #f0f0f0',
+            cursor: selecting ? 'pointer' : undefined,
             display: 'flex',
             alignItems: 'center',
             justifyContent: 'space-between',
             gap: '12px'
           }}>
-            <div style={{ flex: 1 }}>
-              <div style={{ fontSize: '15px', color: '#333', marginBottom: '4px' }}>"{item.originalText}"</div>
-              <div style={{ fontSize: '14px', fontWeight: 'bold', color: '#E65100', display: 'flex', alignItems: 'center', gap: '6px' }}>
-                <span style={{fontSize: '12px'}}>🐱</span> {item.catText}
+            {selecting && (
+              <input
+                type="checkbox"
+                checked={selectedIds.has(item.id)}
+                onChange={() => toggleSelected(item.id)}
+                onClick={e => e.stopPropagation()}
+                style={{ width: '20px', height: '20px', accentColor: '#FF9800', flexShrink: 0 }}
+              />
+            )}
+            <div
+              onClick={selecting ? undefined : () => setDetailItem(item)}
+              title={selecting ? undefined : "Details"}
+              style={{ flex: 1, cursor: 'pointer' }}
+            >
+            {item.kind === 'listen' ? (
+              <div style={{ flex: 1 }}>
+                <div style={{ fontSize: '14px', fontWeight: 'bold', color: '#E65100', marginBottom: '4px', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                  <span style={{fontSize: '12px'}}>{VOCALIZATIONS[item.vocalization].emoji}</span>
+                  {VOCALIZATIONS[item.vocalization].label}
+                  <span style={{ fontSize: '12px', fontWeight: 'normal', color: '#999' }}>
+                    {MOODS[item.mood]?.emoji} {Math.round(item.confidence * 100)}% sure
+                  </span>
+                </div>
+                <div style={{ fontSize: '15px', color: '#333' }}>"{item.interpretation}"</div>
+              </div>
+            ) : (
+              <div style={{ flex: 1 }}>
+                <div style={{ fontSize: '15px', color: '#333', marginBottom: '4px' }}>"{item.originalText}"</div>
+                <div style={{ fontSize: '14px', fontWeight: 'bold', color: '#E65100', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                  <span style={{fontSize: '12px'}}>🐱</span> {item.catText}
+                </div>
+              </div>
+            )}
+            {item.tags && item.tags.length > 0 && (
+              <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap', marginTop: '6px' }}>
+                {item.tags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={e => { e.stopPropagation(); setFilters(prev => ({ ...prev, tag })); }}
+                    title={`Show everything tagged #${tag}`}
+                    style={{
+                      padding: '2px 8px', borderRadius: '10px', border: 'none', cursor: 'pointer',
+                      backgroundColor: filters.tag === tag ? '#FFE0B2' : '#F5F5F5',
+                      color: '#8D6E63', fontSize: '11px'
+                    }}
+                  >
+                    #{tag}
+                  </button>
+                ))}
               </div>
+            )}
             </div>
             
-            <div style={{ display: 'flex', gap: '8px' }}>
+            {!selecting && (
+            <div style={{ display: 'flex', gap: '4px' }}>
                 <button
                     onClick={() => toggleFavorite(item)}
                     style={{
@@ -848,11 +2376,76 @@ const App = () => {
                 >
                     {isFavorite(item.id) ? '⭐' : '☆'}
                 </button>
+                {item.kind !== 'listen' && (
+                  <button
+                      onClick={() => processTranslation(item.originalText, { reroll: true, cat: itemProfile(item), voice: item.voice })}
+                      disabled={isGeneratingText}
+                      title="Re-roll: get a fresh translation"
+                      style={{
+                        background: 'transparent',
+                        border: 'none',
+                        cursor: 'pointer',
+                        fontSize: '16px',
+                        padding: '4px',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        opacity: isGeneratingText ? 0.4 : 1
+                      }}
+                  >
+                      🎲
+                  </button>
+                )}
+                <button
+                    onClick={() => downloadItem(item)}
+                    title="Download WAV"
+                    style={{
+                      background: 'transparent',
+                      border: 'none',
+                      cursor: 'pointer',
+                      fontSize: '16px',
+                      padding: '4px',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center'
+                    }}
+                >
+                    ⬇️
+                </button>
+                <button
+                    onClick={() => setTaggingItem(item)}
+                    title="Tags"
+                    style={{
+                      background: 'transparent',
+                      border: 'none',
+                      cursor: 'pointer',
+                      fontSize: '16px',
+                      padding: '4px',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center'
+                    }}
+                >
+                    🏷️
+                </button>
                 <button
-                    onClick={async () => {
-                    await initAudioContext();
-                    playAudioChunk(item.audioBase64, () => setIsSpeaking(false));
+                    onClick={() => shareItem(item)}
+                    title="Share"
+                    style={{
+                      background: 'transparent',
+                      border: 'none',
+                      cursor: 'pointer',
+                      fontSize: '16px',
+                      padding: '4px',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center'
                     }}
+                >
+                    🔗
+                </button>
+                <button
+                    onClick={() => playSavedItem(item)}
                     style={{
                       background: '#FFF3E0',
                       color: '#E65100',
@@ -870,8 +2463,26 @@ const App = () => {
                     🔊
                 </button>
             </div>
+            )}
           </div>
         ))}
+        {onLoadMore && (
+          <button
+            onClick={onLoadMore}
+            style={{
+              alignSelf: 'center',
+              background: 'transparent',
+              border: '1px solid #FFE0B2',
+              borderRadius: '20px',
+              padding: '8px 20px',
+              color: '#E65100',
+              fontSize: '13px',
+              cursor: 'pointer'
+            }}
+          >
+            Load more
+          </button>
+        )}
       </div>
     );
   };
@@ -997,46 +2608,72 @@ const App = () => {
       {/* Install Help Modal */}
       {showInstallHelp && <InstallHelpModal onClose={() => setShowInstallHelp(false)} />}
       
-      {/* Voice Selection Modal */}
-      {showVoiceModal && (
+      {/* Quick Phrase Editor */}
+      {phraseDraft && (
+        <PhraseModal
+          phrase={phraseDraft.phrase}
+          isNew={phraseDraft.isNew}
+          onSave={savePhrase}
+          onDelete={deletePhrase}
+          onClose={() => setPhraseDraft(null)}
+        />
+      )}
+
+      {/* Item Details */}
+      {detailItem && (
+        <ItemDetailModal
+          item={detailItem}
+          profile={itemProfile(detailItem)}
+          busy={isGeneratingText}
+          onReplay={() => playSavedItem(detailItem)}
+          onRegenerate={(voice) => {
+            setDetailItem(null);
+            if (detailItem.kind !== 'listen') processTranslation(detailItem.originalText, { cat: itemProfile(detailItem), voice });
+          }}
+          onClose={() => setDetailItem(null)}
+        />
+      )}
+
+      {/* Tag Editor */}
+      {taggingItem && (
+        <TagModal
+          item={taggingItem}
+          suggestions={allTags}
+          onSave={(tags) => saveTags(taggingItem, tags)}
+          onClose={() => setTaggingItem(null)}
+        />
+      )}
+
+      {/* Undo for bulk deletes */}
+      {undo && (
         <div style={{
-            position: 'absolute', top: 0, left: 0, right: 0, bottom: 0,
-            backgroundColor: 'rgba(0,0,0,0.7)', zIndex: 100,
-            display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '20px'
-        }} onClick={() => setShowVoiceModal(false)}>
-            <div style={{
-                backgroundColor: 'white', padding: '25px', borderRadius: '24px',
-                width: '100%', maxWidth: '320px', maxHeight: '80vh', overflowY: 'auto',
-                boxShadow: '0 10px 40px rgba(0,0,0,0.2)'
-            }} onClick={e => e.stopPropagation()}>
-                <h3 style={{marginTop: 0, color: '#5D4037', textAlign: 'center'}}>Choose Voice 🗣️</h3>
-                <div style={{display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px'}}>
-                    {VOICES.map(voice => (
-                        <button
-                            key={voice.name}
-                            onClick={() => { setSelectedVoice(voice.name); setShowVoiceModal(false); }}
-                            style={{
-                                padding: '12px', borderRadius: '16px', border: 'none',
-                                backgroundColor: selectedVoice === voice.name ? '#FF9800' : '#F5F5F5',
-                                color: selectedVoice === voice.name ? 'white' : '#5D4037',
-                                fontWeight: '600', cursor: 'pointer',
-                                display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '5px'
-                            }}
-                        >
-                            <span style={{fontSize: '24px'}}>{voice.label.split(' ')[1]}</span>
-                            <span style={{fontSize: '14px'}}>{voice.label.split(' ')[0]}</span>
-                        </button>
-                    ))}
-                </div>
-                <button onClick={() => setShowVoiceModal(false)} style={{
-                    width: '100%', padding: '15px', marginTop: '20px',
-                    backgroundColor: '#eee', border: 'none', borderRadius: '12px',
-                    fontWeight: 'bold', color: '#666', cursor: 'pointer'
-                }}>Close</button>
-            </div>
+          position: 'absolute', left: '20px', right: '20px', bottom: '200px', zIndex: 50,
+          backgroundColor: '#5D4037', color: 'white', borderRadius: '14px', padding: '12px 16px',
+          display: 'flex', alignItems: 'center', justifyContent: 'space-between',
+          boxShadow: '0 6px 20px rgba(0,0,0,0.2)', fontSize: '14px'
+        }}>
+          <span>{undo.message}</span>
+          <button onClick={undoDelete} style={{
+            background: 'transparent', border: 'none', color: '#FFB74D', fontWeight: 'bold',
+            fontSize: '14px', cursor: 'pointer'
+          }}>
+            Undo
+          </button>
         </div>
       )}
 
+      {/* Cat Profiles Modal */}
+      {showProfileModal && (
+        <ProfileModal
+          profiles={profiles}
+          activeId={activeProfile?.id ?? null}
+          onSelect={(id) => { selectProfile(id); setShowProfileModal(false); }}
+          onSave={saveProfile}
+          onDelete={deleteProfile}
+          onClose={() => setShowProfileModal(false)}
+        />
+      )}
+
       {/* --- Top Section: Avatar & Status --- */}
       <div style={{
         flex: '0 0 auto',
@@ -1060,13 +2697,15 @@ const App = () => {
           <h1 style={{ margin: 0, fontSize: '20px', fontWeight: '800', color: '#5D4037' }}>Cat Translator</h1>
           
           <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
-            <button onClick={() => setShowVoiceModal(true)} style={{
+            <button onClick={() => setShowProfileModal(true)} title="Cats & voices" style={{
                 background: 'white', border: 'none', borderRadius: '20px',
                 padding: '4px 12px', color: '#8D6E63', fontWeight: 'bold',
                 boxShadow: '0 2px 5px rgba(0,0,0,0.1)', cursor: 'pointer',
-                display: 'flex', alignItems: 'center', gap: '5px', height: '32px'
+                display: 'flex', alignItems: 'center', gap: '6px', height: '32px',
+                maxWidth: '120px'
             }}>
-                🗣️ Voice
+                <span style={{ width: '10px', height: '10px', borderRadius: '50%', backgroundColor: activeProfile?.color ?? '#ccc', flexShrink: 0 }} />
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{activeProfile?.name ?? "Cat"}</span>
             </button>
             <div style={{
                 backgroundColor: currentMood.color,
@@ -1139,9 +2778,36 @@ const App = () => {
                   ? 'purring 3s infinite ease-in-out'
                   : 'none'
           }}>
-            <CatAvatar isSpeaking={isSpeaking} mood={currentMood} />
+            <LiveCatAvatar
+              isSpeaking={isSpeaking}
+              mood={currentMood}
+              appearance={activeProfile?.appearance}
+              analyserRef={analyserRef}
+            />
           </div>
 
+          {/* Transmitting Indicator */}
+          {connected && (
+            <div style={{
+              position: 'absolute',
+              bottom: '-4px',
+              left: '50%',
+              transform: 'translateX(-50%)',
+              backgroundColor: isReconnecting ? '#FFA000' : isTransmitting ? '#43A047' : '#fff',
+              color: isReconnecting || isTransmitting ? '#fff' : '#8D6E63',
+              borderRadius: '12px',
+              padding: '3px 10px',
+              fontSize: '11px',
+              fontWeight: 'bold',
+              whiteSpace: 'nowrap',
+              boxShadow: '0 2px 6px rgba(0,0,0,0.1)',
+              zIndex: 5,
+              transition: 'background-color 0.2s'
+            }}>
+              {isReconnecting ? '🔄 Reconnecting…' : isTransmitting ? '● Transmitting' : pushToTalk ? 'Hold 🎙️ to talk' : '○ Waiting for speech'}
+            </div>
+          )}
+
           {/* Thinking Bubbles */}
           {isGeneratingText && (
             <div style={{
@@ -1182,7 +2848,30 @@ const App = () => {
           marginBottom: '20px'
         }}>
           {isSpeaking ? `Cat is ${currentMood.label}...` : status}
+          {(!isOnline || queuedCount > 0) && (
+            <span
+              title={queuedCount > 0 ? `${queuedCount} translations waiting for the network` : "Saved clips still play offline"}
+              style={{
+                marginLeft: '8px', padding: '2px 8px', borderRadius: '10px',
+                backgroundColor: isOnline ? '#E3F2FD' : '#ECEFF1', color: '#546E7A',
+                fontSize: '11px', fontWeight: 'bold', whiteSpace: 'nowrap'
+              }}
+            >
+              {isOnline ? '' : '📴 Offline'}{!isOnline && queuedCount > 0 ? ' · ' : ''}{queuedCount > 0 ? `📮 ${queuedCount}` : ''}
+            </span>
+          )}
         </div>
+
+        {/* Live Transcript */}
+        {connected && (liveCaption.user || liveCaption.cat) && (
+          <div style={{
+            marginTop: '-12px', marginBottom: '16px', padding: '0 24px', maxWidth: '100%', boxSizing: 'border-box',
+            fontSize: '13px', textAlign: 'center', lineHeight: 1.4
+          }}>
+            {liveCaption.user && <div style={{ color: '#999' }}>🗣️ {liveCaption.user}</div>}
+            {liveCaption.cat && <div style={{ color: '#E65100', fontWeight: 'bold' }}>🐱 {liveCaption.cat}</div>}
+          </div>
+        )}
       </div>
 
       {/* --- Middle Section: Content Sheet --- */}
@@ -1203,7 +2892,7 @@ const App = () => {
           borderBottom: '1px solid #f0f0f0',
           padding: '0 20px'
         }}>
-          {['phrases', 'recent', 'favorites'].map(tab => (
+          {['phrases', 'recent', 'favorites', 'chats'].map(tab => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab as any)}
@@ -1220,15 +2909,64 @@ const App = () => {
                 transition: 'all 0.2s'
               }}
             >
-              {tab === 'phrases' ? 'Quick' : tab === 'recent' ? 'Recent' : 'Favorites'}
+              {tab === 'phrases' ? 'Quick' : tab === 'recent' ? 'Recent' : tab === 'favorites' ? 'Favorites' : 'Chats'}
             </button>
           ))}
           
+           {activeTab !== 'phrases' && storageUsage && (
+                <span
+                  title={`${formatBytes(storageUsage.usage)} of ${formatBytes(storageUsage.quota)} available storage` +
+                    (cacheStats ? `\nTranslation cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses` : '')}
+                  style={{ marginLeft: 'auto', fontSize: '11px', color: '#bbb', whiteSpace: 'nowrap' }}
+                >
+                  💾 {formatBytes(storageUsage.usage)}
+                </span>
+              )}
+
+           {isItemTab && (
+                <>
+                  <button
+                    onClick={handleExport}
+                    title="Back up history and favorites"
+                    style={{
+                      marginLeft: storageUsage ? '8px' : 'auto',
+                      background: 'transparent',
+                      border: 'none',
+                      fontSize: '14px',
+                      cursor: 'pointer',
+                      padding: '2px'
+                    }}
+                  >
+                    📤
+                  </button>
+                  <button
+                    onClick={() => importInputRef.current?.click()}
+                    title="Restore from a backup"
+                    style={{
+                      background: 'transparent',
+                      border: 'none',
+                      fontSize: '14px',
+                      cursor: 'pointer',
+                      padding: '2px'
+                    }}
+                  >
+                    📥
+                  </button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".zip,application/zip"
+                    onChange={handleImport}
+                    style={{ display: 'none' }}
+                  />
+                </>
+              )}
+
            {activeTab === 'recent' && history.length > 0 && (
                 <button 
                   onClick={clearRecent} 
                   style={{
-                    marginLeft: 'auto',
+                    marginLeft: '8px',
                     background: 'transparent', 
                     border: 'none', 
                     color: '#999', 
@@ -1249,11 +2987,30 @@ const App = () => {
           padding: '20px',
           paddingBottom: '180px', // Space for bottom bar + padding
         }}>
+          {activeTab !== 'phrases' && profiles.length > 1 && activeProfile && (
+            <button
+              onClick={() => setOnlyActiveCat(prev => !prev)}
+              style={{
+                display: 'flex', alignItems: 'center', gap: '6px', margin: '0 auto 12px',
+                padding: '6px 14px', borderRadius: '16px', border: 'none', cursor: 'pointer',
+                backgroundColor: onlyActiveCat ? '#FFF3E0' : '#F5F5F5',
+                color: onlyActiveCat ? '#E65100' : '#8D6E63', fontSize: '12px', fontWeight: 'bold'
+              }}
+            >
+              {onlyActiveCat && <span style={{ width: '8px', height: '8px', borderRadius: '50%', backgroundColor: activeProfile.color }} />}
+              {onlyActiveCat ? `Only ${activeProfile.name}` : "All cats"}
+            </button>
+          )}
+          {isItemTab && renderSearchBar(searchResults ?? (activeTab === 'recent' ? history : favorites))}
           {activeTab === 'phrases' 
             ? renderPhrases()
-            : activeTab === 'recent' 
-              ? renderList(history, "Start chatting to see translations!")
-              : renderList(favorites, "Tap the star to save your favorite meows.")
+            : activeTab === 'chats'
+            ? renderConversations()
+            : searchResults
+              ? renderList(searchResults, "No matches 🔍")
+              : activeTab === 'recent' 
+                ? renderList(history, "Start chatting to see translations!", historyCursor ? loadMoreHistory : undefined)
+                : renderList(favorites, "Tap the star to save your favorite meows.", favoritesCursor ? loadMoreFavorites : undefined)
           }
           <div ref={listEndRef} />
         </div>
@@ -1277,33 +3034,100 @@ const App = () => {
         pointerEvents: 'none' // Let clicks pass through the gradient area
       }}>
         
-        {/* Floating Action Button (Mic) */}
-        <button
-          onClick={connected ? disconnect : startSession}
-          disabled={isGeneratingText}
-          style={{
-            pointerEvents: 'auto',
-            width: '64px',
-            height: '64px',
-            borderRadius: '50%',
-            border: 'none',
-            background: connected ? '#f44336' : '#FF9800',
-            color: 'white',
-            boxShadow: '0 6px 16px rgba(0,0,0,0.2)',
-            fontSize: '28px',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center',
-            cursor: 'pointer',
-            transition: 'transform 0.2s, background 0.3s',
-            marginBottom: '-32px', // Pull it down into the bar slightly
-            zIndex: 60,
-            transform: isGeneratingText ? 'scale(0.8)' : 'scale(1)',
-            opacity: isGeneratingText ? 0.5 : 1
-          }}
-        >
-          {connected ? '🛑' : '🎙️'}
-        </button>
+        {/* Floating Action Buttons */}
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '16px',
+          marginBottom: '-32px', // Pull it down into the bar slightly
+          zIndex: 60
+        }}>
+          {/* Listen to Cat (Cat -> Human) */}
+          <button
+            onClick={isListening ? stopListening : startListening}
+            disabled={isGeneratingText}
+            title="What is my cat saying?"
+            style={{
+              pointerEvents: 'auto',
+              width: '48px',
+              height: '48px',
+              borderRadius: '50%',
+              border: 'none',
+              background: isListening ? '#f44336' : '#fff',
+              color: isListening ? 'white' : '#E65100',
+              boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+              fontSize: '22px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              cursor: 'pointer',
+              transition: 'transform 0.2s, background 0.3s',
+              animation: isListening ? 'pulse 1.5s infinite' : 'none',
+              opacity: isGeneratingText ? 0.5 : 1
+            }}
+          >
+            {isListening ? '⏹️' : '👂'}
+          </button>
+
+          {/* Mic (Live Conversation) */}
+          <button
+            onClick={pushToTalk ? undefined : connected ? disconnect : startSession}
+            onPointerDown={pushToTalk ? startTalking : undefined}
+            onPointerUp={pushToTalk ? stopTalking : undefined}
+            onPointerCancel={pushToTalk ? stopTalking : undefined}
+            onContextMenu={pushToTalk ? (e) => e.preventDefault() : undefined}
+            disabled={isGeneratingText || isListening}
+            title={pushToTalk ? "Hold to talk" : undefined}
+            style={{
+              pointerEvents: 'auto',
+              width: '64px',
+              height: '64px',
+              borderRadius: '50%',
+              border: 'none',
+              background: connected && !pushToTalk ? '#f44336' : '#FF9800',
+              color: 'white',
+              boxShadow: isTransmitting
+                ? '0 0 0 6px rgba(67,160,71,0.5), 0 6px 16px rgba(0,0,0,0.2)'
+                : '0 6px 16px rgba(0,0,0,0.2)',
+              touchAction: 'none',
+              userSelect: 'none',
+              fontSize: '28px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              cursor: 'pointer',
+              transition: 'transform 0.2s, background 0.3s',
+              transform: isGeneratingText ? 'scale(0.8)' : 'scale(1)',
+              opacity: (isGeneratingText || isListening) ? 0.5 : 1
+            }}
+          >
+            {connected && !pushToTalk ? '🛑' : '🎙️'}
+          </button>
+
+          {/* Talk mode toggle, or End while holding-to-talk (the mic no longer hangs up) */}
+          <button
+            onClick={connected && pushToTalk ? disconnect : toggleTalkMode}
+            title={connected && pushToTalk ? "End conversation" : pushToTalk ? "Push-to-talk (tap for hands-free)" : "Hands-free (tap for push-to-talk)"}
+            style={{
+              pointerEvents: 'auto',
+              width: '48px',
+              height: '48px',
+              borderRadius: '50%',
+              border: 'none',
+              background: '#fff',
+              color: '#E65100',
+              boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+              fontSize: '22px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              cursor: 'pointer',
+              transition: 'transform 0.2s, background 0.3s'
+            }}
+          >
+            {connected && pushToTalk ? '🛑' : pushToTalk ? '✋' : '🗣️'}
+          </button>
+        </div>
 
         {/* Input Bar */}
         <div style={{
@@ -0,0 +1,76 @@
+// Service worker: keeps the app shell available offline. Saved clips already live in
+// IndexedDB, so once the shell loads, Recent and Favorites play without a network.
+// Translations are never cached here; the page queues them while offline.
+
+const CACHE = 'cattalk-shell-v2';
+// Unhashed files from public/ (and the page itself); the hashed bundles are sent by the page
+const SHELL = ['./', 'index.html', 'manifest.json', 'icon.svg'];
+
+// React and the SDK come from the import map's CDN
+const CDN_ORIGINS = ['https://aistudiocdn.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page sends what it loaded before we were in control (the hashed bundles)
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'precache' || !Array.isArray(event.data.urls)) return;
+  const urls = event.data.urls.filter(isCacheable);
+  event.waitUntil(
+    caches.open(CACHE).then((cache) => Promise.all(urls.map((url) =>
+      cache.match(url).then((hit) => hit || cache.add(url).catch(() => undefined))
+    )))
+  );
+});
+
+function isCacheable(url) {
+  const { origin, pathname } = new URL(url, self.location.href);
+  if (origin === self.location.origin) return !pathname.startsWith('/api/');
+  return CDN_ORIGINS.includes(origin);
+}
+
+// Fresh from the network when we can, the cached copy when we can't
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request) || (request.mode === 'navigate' && await cache.match('index.html'));
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// Hashed build assets never change under the same URL
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || !isCacheable(request.url)) return;
+
+  const { origin, pathname } = new URL(request.url);
+  const immutable = origin === self.location.origin && pathname.startsWith('/assets/');
+  event.respondWith(immutable ? cacheFirst(request) : networkFirst(request));
+});
@@ -0,0 +1,150 @@
+import { AddressInfo } from 'net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { INPUT_SAMPLE_RATE } from '../constants';
+import { createLocalBackend } from '../services/translator/local';
+import { LiveRelayClientEvent, LiveSession } from '../services/translator/types';
+import { base64Encode } from '../utils/audio';
+import { createCatServer } from './app';
+import { createRateLimiter, RateLimiter } from './rateLimit';
+
+const unlimited: RateLimiter = { take: () => true };
+
+let close: (() => Promise<void>) | null = null;
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await close?.();
+  close = null;
+});
+
+// Mock-mode server on an ephemeral port; resolves to its base URL
+const start = async (rateLimiter = unlimited, backend = createLocalBackend()) => {
+  const server = createCatServer({ backend, rateLimiter });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  close = () => new Promise(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  });
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const post = async (baseUrl: string, path: string, body: unknown) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+  return { status: response.status, headers: response.headers, body: await response.json() };
+};
+
+// Half a second of a loud 600 Hz tone, as PCM16 base64
+const meow = () => {
+  const samples = new Int16Array(INPUT_SAMPLE_RATE / 2).map((_, i) => 12000 * Math.sin((2 * Math.PI * 600 * i) / INPUT_SAMPLE_RATE));
+  return base64Encode(samples.buffer);
+};
+
+describe('createCatServer', () => {
+  it('translates text', async () => {
+    const url = await start();
+    const { status, body } = await post(url, '/api/translate', { text: 'I love you' });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ mood: 'AFFECTIONATE', model: 'local' });
+    expect(typeof body.catText).toBe('string');
+  });
+
+  it('synthesizes speech', async () => {
+    const url = await start();
+    const { status, body } = await post(url, '/api/tts', { catText: 'Meow!', voice: 'Puck' });
+    expect(status).toBe(200);
+    expect(body.audio.length).toBeGreaterThan(0);
+  });
+
+  it('interprets a recorded clip', async () => {
+    const url = await start();
+    const { status, body } = await post(url, '/api/interpret', { audio: meow(), sampleRate: INPUT_SAMPLE_RATE });
+    expect(status).toBe(200);
+    expect(body.interpretation).toMatchObject({ vocalization: expect.any(String), mood: expect.any(String) });
+  });
+
+  it.each([
+    ['/api/translate', { text: '   ' }, 'Missing text'],
+    ['/api/translate', '{"text": ', 'Invalid JSON'],
+    ['/api/tts', { catText: 'Meow', voice: 'Nobody' }, 'Unknown voice'],
+    ['/api/tts', { voice: 'Puck' }, 'Missing catText'],
+    ['/api/interpret', { audio: meow(), sampleRate: 100 }, 'Invalid sampleRate'],
+    ['/api/interpret', { audio: meow(), sampleRate: '16000' }, 'Invalid sampleRate'],
+    ['/api/interpret', { sampleRate: INPUT_SAMPLE_RATE }, 'Missing audio'],
+  ])('answers a bad %s request with 400', async (path, body, error) => {
+    const url = await start();
+    expect(await post(url, path, body)).toMatchObject({ status: 400, body: { error } });
+  });
+
+  it('rejects unknown routes and other methods', async () => {
+    const url = await start();
+    expect((await post(url, '/api/nope', {})).status).toBe(404);
+    expect((await fetch(`${url}/api/translate`)).status).toBe(405);
+  });
+
+  it('answers an oversized body with 413 and closes the connection', async () => {
+    const url = await start();
+    const { status, headers, body } = await post(url, '/api/interpret', { audio: 'A'.repeat(3 * 1024 * 1024), sampleRate: INPUT_SAMPLE_RATE });
+    expect(status).toBe(413);
+    expect(body).toEqual({ error: 'Request too large' });
+    expect(headers.get('connection')).toBe('close');
+  });
+
+  it('answers with 429 once the client runs out of requests', async () => {
+    const url = await start(createRateLimiter({ capacity: 2, refillPerSecond: 0 }));
+    expect((await post(url, '/api/translate', { text: 'hi' })).status).toBe(200);
+    expect((await post(url, '/api/translate', { text: 'hi' })).status).toBe(200);
+    expect(await post(url, '/api/tts', { catText: 'Meow', voice: 'Puck' })).toMatchObject({
+      status: 429,
+      body: { error: 'Too many requests, the cat needs a nap' },
+    });
+  });
+});
+
+describe('live relay', () => {
+  const connect = async (url: string) => {
+    const socket = new WebSocket(`${url.replace('http', 'ws')}/api/live?voice=Puck`);
+    await new Promise((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('error', reject);
+    });
+    return socket;
+  };
+
+  it('keeps only the newest audio while the upstream session starts', async () => {
+    const sent: LiveRelayClientEvent[] = [];
+    let startUpstream: (session: LiveSession) => void = () => {};
+    const url = await start(unlimited, {
+      ...createLocalBackend(),
+      connectLive: () => new Promise(resolve => { startUpstream = resolve; }),
+    });
+    const socket = await connect(url);
+
+    for (let i = 0; i < 100; i++) socket.send(JSON.stringify({ audio: `chunk${i}` }));
+    // The pong comes back once the relay has read every frame before the ping
+    await new Promise(resolve => {
+      socket.once('pong', resolve);
+      socket.ping();
+    });
+    startUpstream({ sendAudio: audio => sent.push({ audio }), endAudioStream: () => {}, close: () => {} });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(sent).toHaveLength(80);
+    expect(sent[0]).toEqual({ audio: 'chunk20' });
+    expect(sent[79]).toEqual({ audio: 'chunk99' });
+    socket.close();
+  });
+
+  it('closes the socket on a frame far bigger than a mic chunk', async () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const url = await start();
+    const socket = await connect(url);
+    const closed = new Promise<number>(resolve => socket.once('close', resolve));
+    socket.send(JSON.stringify({ audio: 'A'.repeat(128 * 1024) }));
+    expect(await closed).toBe(1009); // Message too big
+    expect(logged).toHaveBeenCalledWith("Live client error", "Max payload size exceeded");
+  });
+});
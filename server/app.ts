@@ -0,0 +1,231 @@
+import { createReadStream, existsSync, statSync } from 'fs';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import path from 'path';
+import { WebSocket, WebSocketServer } from 'ws';
+import { VOICES } from '../constants';
+import { sanitizePersona } from '../services/translator/persona';
+import { LiveRelayClientEvent, LiveRelayServerEvent, LiveSession, TranslatorBackend } from '../services/translator/types';
+import { base64Decode } from '../utils/audio';
+import { RateLimiter } from './rateLimit';
+
+const MAX_BODY_BYTES = 2 * 1024 * 1024; // A few seconds of recorded cat audio
+const MAX_RESUME_HANDLE_LENGTH = 1024;
+const MAX_LIVE_FRAME_BYTES = 64 * 1024; // A 128ms mic chunk is ~6KB once base64'd
+const MAX_PENDING_LIVE_EVENTS = 80; // ~10s of mic audio while the upstream session starts
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+};
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export type CatServerOptions = {
+  backend: TranslatorBackend; // Gemini with the server-held key, or the local provider in mock mode
+  rateLimiter: RateLimiter;
+  staticDir?: string; // Built client to serve alongside the API
+};
+
+const getClientId = (req: IncomingMessage) => req.socket.remoteAddress ?? 'unknown';
+
+const readJson = (req: IncomingMessage) => new Promise<any>((resolve, reject) => {
+  let size = 0;
+  let tooLarge = false;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    // Past the limit the rest is drained and dropped, so the 413 still reaches the client
+    if (tooLarge) return;
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      tooLarge = true;
+      chunks.length = 0;
+      reject(new HttpError(413, 'Request too large'));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (tooLarge) return;
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+    } catch {
+      reject(new HttpError(400, 'Invalid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `Missing ${field}`);
+  return value;
+};
+
+const requireVoice = (value: unknown): string => {
+  if (!VOICES.some(v => v.name === value)) throw new HttpError(400, 'Unknown voice');
+  return value as string;
+};
+
+const serveStatic = (staticDir: string, req: IncomingMessage, res: ServerResponse) => {
+  let urlPath: string;
+  try {
+    urlPath = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+  } catch {
+    throw new HttpError(400, 'Malformed URL'); // e.g. a stray "%" that isn't an escape
+  }
+  let filePath = path.join(staticDir, path.normalize(urlPath));
+  if (!filePath.startsWith(staticDir)) throw new HttpError(404, 'Not found');
+  if (!existsSync(filePath) || statSync(filePath).isDirectory()) {
+    filePath = path.join(staticDir, 'index.html');
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream' });
+  createReadStream(filePath).pipe(res);
+};
+
+export const createCatServer = ({ backend, rateLimiter, staticDir }: CatServerOptions) => {
+  const routes: Record<string, (body: any) => Promise<unknown>> = {
+    '/api/translate': async ({ text, persona }) =>
+      backend.translateText(requireString(text, 'text'), sanitizePersona(persona)),
+    '/api/tts': async ({ catText, voice }) => ({
+      audio: await backend.synthesize(requireString(catText, 'catText'), requireVoice(voice)),
+    }),
+    '/api/interpret': async ({ audio, sampleRate }) => {
+      if (!Number.isInteger(sampleRate) || sampleRate < 8000 || sampleRate > 96000) {
+        throw new HttpError(400, 'Invalid sampleRate');
+      }
+      return {
+        interpretation: await backend.interpretCatAudio(base64Decode(requireString(audio, 'audio')), sampleRate),
+      };
+    },
+  };
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+      const route = routes[pathname];
+
+      if (!route) {
+        if (req.method === 'GET' && staticDir && !pathname.startsWith('/api/')) {
+          return serveStatic(staticDir, req, res);
+        }
+        throw new HttpError(404, 'Not found');
+      }
+      if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed');
+      if (!rateLimiter.take(getClientId(req))) throw new HttpError(429, 'Too many requests, the cat needs a nap');
+
+      sendJson(res, 200, await route(await readJson(req)));
+    } catch (e) {
+      if (e instanceof HttpError) {
+        // Don't keep a connection around for a client that sends oversized bodies
+        if (e.status === 413) res.setHeader('Connection', 'close');
+        sendJson(res, e.status, { error: e.message });
+      } else {
+        console.error("Upstream error", e);
+        sendJson(res, 502, { error: 'Upstream request failed' });
+      }
+    }
+  });
+
+  // Live session relay: browser <-> this server <-> upstream live session
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_LIVE_FRAME_BYTES });
+
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== '/api/live') {
+      socket.destroy();
+      return;
+    }
+    if (!rateLimiter.take(getClientId(req))) {
+      socket.end('HTTP/1.1 429 Too Many Requests\r\n\r\n');
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+  });
+
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+    const params = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    const voice = params.get('voice');
+    const resumeHandle = params.get('resume') ?? undefined;
+    let persona;
+    try {
+      persona = sanitizePersona(JSON.parse(params.get('persona') ?? 'null'));
+    } catch {
+      // Unreadable persona; talk to a generic cat
+    }
+    const send = (event: LiveRelayServerEvent) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(event));
+    };
+
+    if (!VOICES.some(v => v.name === voice)) {
+      send({ event: 'error', error: 'Unknown voice' });
+      ws.close();
+      return;
+    }
+    if (resumeHandle && resumeHandle.length > MAX_RESUME_HANDLE_LENGTH) {
+      send({ event: 'error', error: 'Invalid resume handle' });
+      ws.close();
+      return;
+    }
+
+    let upstream: LiveSession | null = null;
+    const pending: LiveRelayClientEvent[] = [];
+
+    const forward = (session: LiveSession, event: LiveRelayClientEvent) => {
+      if ('audio' in event) session.sendAudio(event.audio);
+      else session.endAudioStream();
+    };
+
+    backend.connectLive({ voice: voice!, resumeHandle, persona }, {
+      onopen: () => send({ event: 'open' }),
+      onmessage: (message) => send({ event: 'message', message }),
+      onclose: () => ws.close(),
+      onerror: (err) => {
+        console.error("Live upstream error", err);
+        send({ event: 'error', error: 'Live session failed' });
+        ws.close();
+      },
+    }).then(session => {
+      upstream = session;
+      pending.forEach(event => forward(session, event));
+      pending.length = 0;
+      if (ws.readyState !== WebSocket.OPEN) session.close();
+    }).catch(err => {
+      console.error("Live upstream connect failed", err);
+      send({ event: 'error', error: 'Could not reach the cat' });
+      ws.close();
+    });
+
+    ws.on('message', (data) => {
+      try {
+        const parsed = JSON.parse(data.toString());
+        let event: LiveRelayClientEvent;
+        if (typeof parsed.audio === 'string') event = { audio: parsed.audio };
+        else if (parsed.audioStreamEnd === true) event = { audioStreamEnd: true };
+        else return;
+
+        if (upstream) forward(upstream, event);
+        else if (pending.push(event) > MAX_PENDING_LIVE_EVENTS) pending.shift(); // Keep the newest audio
+      } catch {
+        // Ignore malformed frames
+      }
+    });
+
+    // e.g. a frame over maxPayload; ws closes the socket itself, but an unheard error would crash the server
+    ws.on('error', (err) => console.error("Live client error", err.message));
+    ws.on('close', () => upstream?.close());
+  });
+
+  return server;
+};
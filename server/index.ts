@@ -0,0 +1,33 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import { loadEnv } from 'vite';
+import { createGeminiBackend } from '../services/translator/gemini';
+import { createLocalBackend } from '../services/translator/local';
+import { createCatServer } from './app';
+import { createRateLimiter } from './rateLimit';
+
+// Holds GEMINI_API_KEY server-side so it never ships in the client bundle.
+// MOCK_UPSTREAM=1 answers with the offline provider instead of calling Gemini.
+
+const env = loadEnv(process.env.NODE_ENV ?? 'development', process.cwd(), '');
+const port = Number(env.SERVER_PORT || 8787);
+const mock = env.MOCK_UPSTREAM === '1' || env.MOCK_UPSTREAM === 'true';
+const distDir = path.resolve('dist');
+
+if (!mock && !env.GEMINI_API_KEY) {
+  console.error("GEMINI_API_KEY is not set. Add it to .env.local or run with MOCK_UPSTREAM=1.");
+  process.exit(1);
+}
+
+const server = createCatServer({
+  backend: mock ? createLocalBackend() : createGeminiBackend(env.GEMINI_API_KEY),
+  rateLimiter: createRateLimiter({
+    capacity: Number(env.RATE_LIMIT_BURST || 20),
+    refillPerSecond: Number(env.RATE_LIMIT_PER_MINUTE || 30) / 60,
+  }),
+  staticDir: existsSync(distDir) ? distDir : undefined,
+});
+
+server.listen(port, () => {
+  console.log(`Cat Talk server on http://localhost:${port}${mock ? ' (mock upstream)' : ''}`);
+});
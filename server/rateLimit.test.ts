@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+const setup = (capacity: number, refillPerSecond: number) => {
+  let time = 0;
+  const limiter = createRateLimiter({ capacity, refillPerSecond, now: () => time });
+  return {
+    limiter,
+    advance: (ms: number) => { time += ms; },
+    // How many requests go through back to back
+    burst: (clientId: string) => {
+      let allowed = 0;
+      while (allowed < 1000 && limiter.take(clientId)) allowed++;
+      return allowed;
+    },
+  };
+};
+
+describe('createRateLimiter', () => {
+  it('allows a burst of `capacity` requests, then refuses', () => {
+    const { burst } = setup(5, 1);
+    expect(burst('a')).toBe(5);
+    expect(burst('a')).toBe(0);
+  });
+
+  it('refills at `refillPerSecond`', () => {
+    const { limiter, advance, burst } = setup(5, 2);
+    burst('a');
+    advance(400);
+    expect(limiter.take('a')).toBe(false);
+    advance(100);
+    expect(limiter.take('a')).toBe(true);
+    expect(limiter.take('a')).toBe(false);
+    advance(1500);
+    expect(burst('a')).toBe(3);
+  });
+
+  it('never refills past capacity', () => {
+    const { advance, burst } = setup(3, 10);
+    burst('a');
+    advance(60_000);
+    expect(burst('a')).toBe(3);
+  });
+
+  it('keeps a bucket per client', () => {
+    const { burst } = setup(2, 1);
+    expect(burst('a')).toBe(2);
+    expect(burst('b')).toBe(2);
+    expect(burst('a')).toBe(0);
+  });
+});
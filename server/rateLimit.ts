@@ -0,0 +1,45 @@
+// Per-client token bucket: `capacity` requests in a burst, refilled at `refillPerSecond`
+
+export type RateLimiter = {
+  take(clientId: string): boolean;
+};
+
+type Bucket = { tokens: number, updatedAt: number };
+
+const MAX_TRACKED_CLIENTS = 10000;
+
+export const createRateLimiter = ({ capacity, refillPerSecond, now = Date.now }: {
+  capacity: number;
+  refillPerSecond: number;
+  now?: () => number;
+}): RateLimiter => {
+  const buckets = new Map<string, Bucket>();
+
+  const refill = (bucket: Bucket, time: number) => {
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((time - bucket.updatedAt) / 1000) * refillPerSecond);
+    bucket.updatedAt = time;
+  };
+
+  // Forget clients whose bucket has filled back up so the map can't grow forever
+  const prune = (time: number) => {
+    for (const [clientId, bucket] of buckets) {
+      refill(bucket, time);
+      if (bucket.tokens >= capacity) buckets.delete(clientId);
+    }
+  };
+
+  return {
+    take(clientId) {
+      const time = now();
+      if (buckets.size > MAX_TRACKED_CLIENTS) prune(time);
+
+      const bucket = buckets.get(clientId) ?? { tokens: capacity, updatedAt: time };
+      refill(bucket, time);
+      buckets.set(clientId, bucket);
+
+      if (bucket.tokens < 1) return false;
+      bucket.tokens -= 1;
+      return true;
+    },
+  };
+};
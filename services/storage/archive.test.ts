@@ -0,0 +1,157 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, expect, it } from 'vitest';
+import { OUTPUT_SAMPLE_RATE } from '../../constants';
+import { AudioClip, HistoryItem } from '../../types';
+import { encodeWav } from '../../utils/audio';
+import { createZip, readZip } from '../../utils/zip';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, ArchiveError, exportArchive, importArchive } from './archive';
+import { createStorage } from './index';
+
+const freshStorage = () => createStorage({ indexedDB: new IDBFactory() });
+
+const clipFor = (id: string, value: number): AudioClip =>
+  ({ id, pcm16: new Int16Array(100).fill(value).buffer, sampleRate: OUTPUT_SAMPLE_RATE });
+
+const hello: HistoryItem = { id: '1000', createdAt: 1000, audioId: '1000', originalText: 'Hello', catText: 'Mrrp!', mood: 'HAPPY', tags: ['morning'] };
+const dinner: HistoryItem = { id: '2000', createdAt: 2000, audioId: '2000', originalText: 'Dinner', catText: 'MEOW', hiddenFromRecent: true };
+const trill: HistoryItem = {
+  id: '3000', createdAt: 3000, audioId: '3000', kind: 'listen',
+  vocalization: 'trill', interpretation: "You're home!", confidence: 0.8, mood: 'HAPPY',
+};
+
+// A device with three saved items: two favorites, one of them cleared from Recent
+const populated = async () => {
+  const storage = freshStorage();
+  for (const [i, item] of [hello, dinner, trill].entries()) await storage.history.save(item, clipFor(item.audioId, i + 1));
+  await storage.favorites.add(dinner);
+  await storage.favorites.add(trill);
+  return storage;
+};
+
+const blobToZip = async (blob: Blob) => readZip(new Uint8Array(await blob.arrayBuffer()));
+
+// An archive written by hand, for manifests the app would never export
+const archiveOf = (items: object[], files: Record<string, Uint8Array> = {}, favorites: string[] = []) => {
+  const manifest = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: 0, items, favorites };
+  return new Blob([createZip([
+    { name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest)) },
+    ...Object.entries(files).map(([name, data]) => ({ name, data })),
+  ])]);
+};
+
+const wav = (value: number) => new Uint8Array(encodeWav(clipFor('', value).pcm16, OUTPUT_SAMPLE_RATE));
+
+describe('exportArchive / importArchive', () => {
+  it('carries items, audio and favorites over to a fresh device', async () => {
+    const archive = await exportArchive(await populated());
+    const target = freshStorage();
+
+    expect(await importArchive(archive, target)).toEqual({ added: 3, skipped: 0, favoritesAdded: 2 });
+    expect((await target.history.list()).items.map(item => item.id)).toEqual(['3000', '1000']);
+    expect((await target.favorites.list()).items.map(item => item.id)).toEqual(['3000', '2000']);
+    expect(await target.history.get('1000')).toMatchObject({ originalText: 'Hello', mood: 'HAPPY', tags: ['morning'] });
+    expect(await target.history.get('3000')).toMatchObject({ kind: 'listen', vocalization: 'trill', confidence: 0.8 });
+
+    const clip = await target.audio.get('2000');
+    expect(clip?.sampleRate).toBe(OUTPUT_SAMPLE_RATE);
+    expect(new Int16Array(clip!.pcm16)).toEqual(new Int16Array(100).fill(2));
+    // Search tokens aren't exported but are rebuilt on the way in
+    expect((await target.history.search({ text: 'hello' })).map(item => item.id)).toEqual(['1000']);
+  });
+
+  it('skips items already on the device when imported twice', async () => {
+    const archive = await exportArchive(await populated());
+    const target = freshStorage();
+    await importArchive(archive, target);
+    expect(await importArchive(archive, target)).toEqual({ added: 0, skipped: 3, favoritesAdded: 0 });
+    expect(await target.history.count()).toBe(3);
+    expect(await target.favorites.count()).toBe(2);
+  });
+
+  it('takes the first of two items with the same id', async () => {
+    const archive = archiveOf(
+      [{ ...hello, audioFile: 'audio/a.wav' }, { ...hello, catText: 'Hiss', audioFile: 'audio/b.wav' }],
+      { 'audio/a.wav': wav(1) },
+    );
+    const target = freshStorage();
+    expect(await importArchive(archive, target)).toEqual({ added: 1, skipped: 0, favoritesAdded: 0 });
+    expect(await target.history.get('1000')).toMatchObject({ catText: 'Mrrp!' });
+  });
+
+  it('favorites an item the device already has without copying it again', async () => {
+    const target = freshStorage();
+    await target.history.save({ ...trill, tags: ['mine'] }, clipFor(trill.audioId, 9));
+
+    expect(await importArchive(await exportArchive(await populated()), target)).toEqual({ added: 2, skipped: 1, favoritesAdded: 2 });
+    const favorite = (await target.favorites.list()).items.find(item => item.id === '3000');
+    expect(favorite?.tags).toEqual(['mine']);
+    expect(new Int16Array((await target.audio.get('3000'))!.pcm16)[0]).toBe(9);
+  });
+
+  it('shows a hidden item in Recent when its favorite is not in the archive', async () => {
+    const archive = archiveOf([{ ...dinner, audioFile: 'audio/2000.wav' }], { 'audio/2000.wav': wav(2) });
+    const target = freshStorage();
+    await importArchive(archive, target);
+    expect((await target.history.list()).items.map(item => item.id)).toEqual(['2000']);
+  });
+
+  it.each(['translation:abc', 'phrase-1', '../1000', '', '12 34'])('refuses an item with the id %j', async id => {
+    const archive = archiveOf([{ ...hello, id, audioFile: 'audio/a.wav' }], { 'audio/a.wav': wav(1) });
+    const target = freshStorage();
+    await expect(importArchive(archive, target)).rejects.toThrow(new ArchiveError("Archive contains an invalid item"));
+    expect(await target.history.count()).toBe(0);
+  });
+
+  it.each<[string, object]>([
+    ['an unknown kind', { ...hello, kind: 'video' }],
+    ['an unknown vocalization', { ...trill, vocalization: 'bark' }],
+    ['an inherited mood key', { ...trill, mood: 'constructor' }],
+    ['no cat text', { ...hello, catText: undefined }],
+    ['a non-numeric date', { ...hello, createdAt: 'yesterday' }],
+  ])('refuses an item with %s', async (_, item) => {
+    const archive = archiveOf([{ ...item, audioFile: 'audio/a.wav' }], { 'audio/a.wav': wav(1) });
+    await expect(importArchive(archive, freshStorage())).rejects.toThrow("Archive contains an invalid item");
+  });
+
+  it('refuses an archive missing an item\'s WAV, importing nothing', async () => {
+    const archive = archiveOf([
+      { ...hello, audioFile: 'audio/1000.wav' },
+      { ...trill, audioFile: 'audio/3000.wav' },
+    ], { 'audio/1000.wav': wav(1) });
+    const target = freshStorage();
+    await expect(importArchive(archive, target)).rejects.toThrow("Archive is missing audio/3000.wav");
+    expect(await target.history.count()).toBe(0);
+  });
+
+  it('refuses a WAV it cannot decode', async () => {
+    const archive = archiveOf([{ ...hello, audioFile: 'audio/1000.wav' }], { 'audio/1000.wav': new TextEncoder().encode('meow') });
+    await expect(importArchive(archive, freshStorage())).rejects.toThrow("audio/1000.wav: Not a WAV file");
+  });
+
+  it('refuses an archive whose data fails its checksum', async () => {
+    const bytes = new Uint8Array(await (await exportArchive(await populated())).arrayBuffer());
+    const lastWav = Buffer.from(bytes).lastIndexOf('RIFF');
+    bytes[lastWav + 100] ^= 0xFF; // A sample of the last WAV
+    const target = freshStorage();
+    await expect(importArchive(new Blob([bytes]), target)).rejects.toThrow(/^Not a Cat Translator archive \(Damaged zip entry/);
+    expect(await target.history.count()).toBe(0);
+  });
+
+  it('refuses files that are not archives of ours', async () => {
+    const other = new Blob([createZip([{ name: 'manifest.json', data: new TextEncoder().encode('{"format":"other","items":[]}') }])]);
+    await expect(importArchive(other, freshStorage())).rejects.toThrow(ArchiveError);
+    await expect(importArchive(new Blob(['hello']), freshStorage())).rejects.toThrow(ArchiveError);
+
+    const newer = new Blob([createZip([{
+      name: 'manifest.json',
+      data: new TextEncoder().encode(JSON.stringify({ format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION + 1, items: [] })),
+    }])]);
+    await expect(importArchive(newer, freshStorage())).rejects.toThrow("This archive was made by a newer version of the app");
+  });
+
+  it('names each WAV after its item', async () => {
+    const files = await blobToZip(await exportArchive(await populated()));
+    expect([...files.keys()]).toEqual(['manifest.json', 'audio/1000.wav', 'audio/2000.wav', 'audio/3000.wav']);
+  });
+});
@@ -0,0 +1,174 @@
+import { MOODS, VOCALIZATIONS } from '../../constants';
+import { AudioClip, HistoryItem } from '../../types';
+import { decodeWav, encodeWav } from '../../utils/audio';
+import { createZip, readZip } from '../../utils/zip';
+import { AudioRepository, FavoritesRepository, HistoryRepository } from './repositories';
+
+// Portable backup of history and favorites: a zip holding manifest.json plus one WAV per
+// item under audio/. Used to move a cat's favorite phrases between phones.
+
+export const ARCHIVE_FORMAT = 'cattalk-archive';
+export const ARCHIVE_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+type ArchiveItem = HistoryItem & {
+  audioFile: string; // Path of the item's WAV inside the zip
+};
+
+export type ArchiveManifest = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  items: ArchiveItem[];
+  favorites: string[]; // Item ids
+};
+
+export type ImportResult = {
+  added: number;
+  skipped: number; // Already on this device
+  favoritesAdded: number;
+};
+
+// The archive is unreadable or not ours; nothing was imported
+export class ArchiveError extends Error {}
+
+type ArchiveStores = {
+  history: HistoryRepository;
+  favorites: FavoritesRepository;
+  audio: AudioRepository;
+};
+
+const audioFileName = (id: string) => `audio/${id.replace(/[^\w.-]/g, '_')}.wav`;
+
+export async function exportArchive({ history, favorites, audio }: ArchiveStores): Promise<Blob> {
+  const [items, favoriteIds] = await Promise.all([history.all(), favorites.ids()]);
+  const files: { name: string, data: Uint8Array }[] = [];
+  const exported: ArchiveItem[] = [];
+
+  for (const item of items) {
+    const clip = await audio.get(item.audioId);
+    if (!clip) continue; // Nothing to play back; not worth carrying over
+    const audioFile = audioFileName(item.id);
+    files.push({ name: audioFile, data: new Uint8Array(encodeWav(clip.pcm16, clip.sampleRate)) });
+    const { searchTokens, ...rest } = item; // Rebuilt on import
+    exported.push({ ...rest, audioFile });
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    items: exported,
+    favorites: favoriteIds.filter(id => exported.some(item => item.id === id)),
+  };
+  files.unshift({ name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+
+  return new Blob([createZip(files)], { type: 'application/zip' });
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// History ids are Date.now() timestamps. Imported audio is stored under the item's id, so
+// anything else could land on another record's clip (a cached translation's, a phrase's).
+const HISTORY_ID = /^\d+$/;
+
+// Only fields we know, with the types we expect; anything else in the manifest is dropped
+const parseItem = (raw: any): ArchiveItem | null => {
+  if (!raw || !isString(raw.id) || !HISTORY_ID.test(raw.id) || !Number.isFinite(raw.createdAt) || !isString(raw.audioFile)) return null;
+  const base = {
+    id: raw.id,
+    createdAt: raw.createdAt as number,
+    audioId: raw.id,
+    audioFile: raw.audioFile,
+    ...(isString(raw.profileId) ? { profileId: raw.profileId } : {}),
+    ...(raw.hiddenFromRecent === true ? { hiddenFromRecent: true } : {}),
+    ...(isString(raw.voice) ? { voice: raw.voice } : {}),
+    ...(Array.isArray(raw.tags) && raw.tags.every(isString) ? { tags: raw.tags as string[] } : {}),
+    ...(isString(raw.model) ? { model: raw.model } : {}),
+    ...(Number.isFinite(raw.durationMs) && raw.durationMs >= 0 ? { durationMs: raw.durationMs as number } : {}),
+  };
+
+  if (raw.kind === 'listen') {
+    if (!Object.hasOwn(VOCALIZATIONS, raw.vocalization) || !Object.hasOwn(MOODS, raw.mood) || !isString(raw.interpretation)) return null;
+    return {
+      ...base,
+      kind: 'listen',
+      vocalization: raw.vocalization,
+      interpretation: raw.interpretation,
+      confidence: Math.min(1, Math.max(0, Number(raw.confidence) || 0)),
+      mood: raw.mood,
+    };
+  }
+
+  if ((raw.kind !== undefined && raw.kind !== 'translation') || !isString(raw.originalText) || !isString(raw.catText)) return null;
+  return {
+    ...base,
+    kind: 'translation',
+    originalText: raw.originalText,
+    catText: raw.catText,
+    ...(Object.hasOwn(MOODS, raw.mood) ? { mood: raw.mood } : {}),
+    ...(isString(raw.intent) ? { intent: raw.intent } : {}),
+  };
+};
+
+// Validates the whole archive before touching the database, then merges it in
+export async function importArchive(file: Blob, { history, favorites }: ArchiveStores): Promise<ImportResult> {
+  let files: Map<string, Uint8Array>;
+  let manifest: any;
+  try {
+    files = readZip(new Uint8Array(await file.arrayBuffer()));
+    manifest = JSON.parse(new TextDecoder().decode(files.get(MANIFEST_NAME)));
+  } catch (e) {
+    throw new ArchiveError(`Not a Cat Translator archive (${(e as Error).message})`);
+  }
+
+  if (manifest?.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.items)) {
+    throw new ArchiveError("Not a Cat Translator archive");
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+    throw new ArchiveError("This archive was made by a newer version of the app");
+  }
+
+  const entries: { item: HistoryItem, clip: AudioClip }[] = [];
+  const seen = new Set<string>();
+  for (const raw of manifest.items) {
+    const parsed = parseItem(raw);
+    if (!parsed) throw new ArchiveError("Archive contains an invalid item");
+    if (seen.has(parsed.id)) continue;
+    seen.add(parsed.id);
+
+    const wav = files.get(parsed.audioFile);
+    if (!wav) throw new ArchiveError(`Archive is missing ${parsed.audioFile}`);
+    let decoded;
+    try {
+      decoded = decodeWav(wav.slice().buffer);
+    } catch (e) {
+      throw new ArchiveError(`${parsed.audioFile}: ${(e as Error).message}`);
+    }
+
+    const { audioFile, ...item } = parsed;
+    entries.push({ item, clip: { id: item.audioId, ...decoded } });
+  }
+
+  const favoriteIds = new Set(Array.isArray(manifest.favorites) ? manifest.favorites.filter(isString) : []);
+  const existingFavorites = new Set(await favorites.ids());
+  const result: ImportResult = { added: 0, skipped: 0, favoritesAdded: 0 };
+
+  for (const { item, clip } of entries) {
+    const existing = await history.get(item.id);
+    if (existing) {
+      result.skipped++;
+    } else {
+      // Hidden items only make sense while the favorite that keeps them comes along
+      const hidden = item.hiddenFromRecent && favoriteIds.has(item.id);
+      await history.save({ ...item, hiddenFromRecent: hidden || undefined }, clip);
+      result.added++;
+    }
+
+    if (favoriteIds.has(item.id) && !existingFavorites.has(item.id)) {
+      await favorites.add(existing ?? item);
+      result.favoritesAdded++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,209 @@
+import { DEFAULT_PHRASES, OUTPUT_SAMPLE_RATE } from '../../constants';
+import { base64Decode } from '../../utils/audio';
+import { itemSearchTokens } from './search';
+
+// IndexedDB schema for everything the app keeps on the device.
+// The schema only moves forward through MIGRATIONS: each step upgrades the database to the
+// version it is keyed by. Never edit a step that has shipped; add a new one instead.
+
+export const DB_NAME = 'CatTranslatorDB';
+export const STORE_HISTORY = 'history';
+export const STORE_FAVORITES = 'favorites'; // References to history items
+export const STORE_AUDIO = 'audio'; // AudioClips keyed by id
+export const STORE_PROFILES = 'profiles';
+export const STORE_SETTINGS = 'settings'; // Small key/value preferences
+export const STORE_PHRASES = 'phrases'; // Quick phrases, their audio lives in STORE_AUDIO
+export const STORE_TRANSLATIONS = 'translations'; // Cache of model translations by request key
+export const STORE_QUEUE = 'queue'; // Text translations waiting for the network
+export const STORE_CONVERSATIONS = 'conversations'; // Live sessions, turn audio lives in STORE_AUDIO
+
+// Indexes shared by the item stores
+export const INDEX_CREATED_AT = 'createdAt';
+export const INDEX_TEXT = 'text'; // Exact original text of translations
+export const INDEX_PROFILE = 'profile'; // [profileId, createdAt], newest-per-cat paging
+export const INDEX_LAST_USED = 'lastUsed'; // Translation cache, least recently used first
+export const INDEX_TOKENS = 'tokens'; // multiEntry over searchTokens, full-text search
+export const INDEX_TAGS = 'tags'; // multiEntry over tags
+
+// Shape of history records written today. Bump it together with a migration that brings
+// older records up to date.
+export const ITEM_SCHEMA_VERSION = 2;
+
+// Steps run one after another; a step that rewrites records must finish before the next
+// one reads them, so data-moving steps return a promise
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void | Promise<void>;
+
+// Visit every record of a store inside the upgrade transaction
+const eachRecord = (store: IDBObjectStore, visit: (cursor: IDBCursorWithValue) => void | Promise<void>) =>
+  new Promise<void>((resolve, reject) => {
+    const request = store.openCursor();
+    request.onsuccess = async () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      await visit(cursor);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const MIGRATIONS: Record<number, Migration> = {
+  1: (db) => {
+    db.createObjectStore(STORE_HISTORY, { keyPath: 'id' });
+    db.createObjectStore(STORE_FAVORITES, { keyPath: 'id' });
+  },
+
+  // Index by creation time instead of sorting ids in memory; backfill createdAt from the
+  // timestamp ids v1 used
+  2: async (_db, transaction) => {
+    for (const storeName of [STORE_HISTORY, STORE_FAVORITES]) {
+      const store = transaction.objectStore(storeName);
+      store.createIndex(INDEX_CREATED_AT, 'createdAt');
+      store.createIndex(INDEX_TEXT, 'originalText');
+      store.createIndex(INDEX_PROFILE, ['profileId', 'createdAt']);
+
+      await eachRecord(store, (cursor) => {
+        if (typeof cursor.value.createdAt !== 'number') {
+          cursor.update({ ...cursor.value, createdAt: Number(cursor.value.id) || Date.now() });
+        }
+      });
+    }
+  },
+
+  // Audio moves out of the items into its own store (raw bytes instead of base64), and
+  // favorites become references to history items instead of full copies
+  3: async (db, transaction) => {
+    db.createObjectStore(STORE_AUDIO, { keyPath: 'id' });
+    const history = transaction.objectStore(STORE_HISTORY);
+    const favorites = transaction.objectStore(STORE_FAVORITES);
+    const audio = transaction.objectStore(STORE_AUDIO);
+    favorites.deleteIndex(INDEX_TEXT);
+
+    const extractAudio = (record: any) => {
+      const { audioBase64, sampleRate, ...item } = record;
+      if (typeof audioBase64 !== 'string') return record;
+      audio.put({
+        id: item.id,
+        pcm16: base64Decode(audioBase64),
+        sampleRate: item.kind === 'listen' ? sampleRate : OUTPUT_SAMPLE_RATE,
+      });
+      return { ...item, audioId: item.id };
+    };
+
+    await eachRecord(history, (cursor) => {
+      if ('audioBase64' in cursor.value) cursor.update(extractAudio(cursor.value));
+    });
+
+    // A favorite whose history entry was cleared survives as a hidden history item
+    await eachRecord(favorites, async (cursor) => {
+      const record = cursor.value;
+      if (!('audioBase64' in record)) return;
+      if (await requestResult(history.getKey(record.id)) === undefined) {
+        history.put({ ...extractAudio(record), hiddenFromRecent: true });
+      }
+      cursor.update({ id: record.id, createdAt: record.createdAt, profileId: record.profileId });
+    });
+  },
+
+  // Cat profiles, and a place for preferences such as which cat is selected
+  4: (db) => {
+    db.createObjectStore(STORE_PROFILES, { keyPath: 'id' });
+    db.createObjectStore(STORE_SETTINGS);
+  },
+
+  // Editable quick phrases, starting from the ones that used to be built in
+  5: (db) => {
+    const store = db.createObjectStore(STORE_PHRASES, { keyPath: 'id' });
+    DEFAULT_PHRASES.forEach((phrase, order) => store.put({ ...phrase, order }));
+  },
+
+  // Translation cache, evicted least recently used first
+  6: (db) => {
+    const store = db.createObjectStore(STORE_TRANSLATIONS, { keyPath: 'key' });
+    store.createIndex(INDEX_LAST_USED, 'lastUsedAt');
+  },
+
+  // Translations asked for while offline
+  7: (db) => {
+    db.createObjectStore(STORE_QUEUE, { keyPath: 'id' });
+  },
+
+  // Search and tags: word and tag indexes over history, with words backfilled
+  8: async (_db, transaction) => {
+    const store = transaction.objectStore(STORE_HISTORY);
+    store.createIndex(INDEX_TOKENS, 'searchTokens', { multiEntry: true });
+    store.createIndex(INDEX_TAGS, 'tags', { multiEntry: true });
+    await eachRecord(store, (cursor) => {
+      cursor.update({ ...cursor.value, searchTokens: itemSearchTokens(cursor.value) });
+    });
+  },
+
+  // Item schema 2: metadata on every item. Only the clip length can be recovered for old
+  // records; voice, model and mood stay unknown.
+  9: async (_db, transaction) => {
+    const audio = transaction.objectStore(STORE_AUDIO);
+    await eachRecord(transaction.objectStore(STORE_HISTORY), async (cursor) => {
+      const clip = await requestResult(audio.get(cursor.value.audioId));
+      cursor.update({
+        ...cursor.value,
+        schemaVersion: ITEM_SCHEMA_VERSION,
+        ...(clip ? { durationMs: clipDuration(clip.pcm16, clip.sampleRate) } : {}),
+      });
+    });
+  },
+
+  // Live session transcripts, paged like the item stores
+  10: (db) => {
+    const store = db.createObjectStore(STORE_CONVERSATIONS, { keyPath: 'id' });
+    store.createIndex(INDEX_CREATED_AT, 'createdAt');
+    store.createIndex(INDEX_PROFILE, ['profileId', 'createdAt']);
+  },
+};
+
+export const DB_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
+
+// `factory` is injectable so the storage layer can run against an in-memory shim
+export const openDatabase = (factory: IDBFactory = indexedDB): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = async (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      try {
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+          await MIGRATIONS[version](db, transaction);
+        }
+      } catch (err) {
+        console.error("Database migration failed", err);
+        transaction.abort(); // Leaves the old version intact; open() then rejects
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading; get out of its way
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn("Database upgrade is waiting for other tabs to close");
+  });
+};
+
+// Milliseconds of PCM16 audio
+export const clipDuration = (pcm16: ArrayBuffer, sampleRate: number) =>
+  Math.round((pcm16.byteLength / 2 / sampleRate) * 1000);
+
+export const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+  });
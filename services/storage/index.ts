@@ -0,0 +1,82 @@
+import { openDatabase } from './database';
+import {
+  createAudioRepository,
+  createConversationsRepository,
+  createFavoritesRepository,
+  createHistoryRepository,
+  createPhrasesRepository,
+  createProfilesRepository,
+  createSettingsRepository,
+  createTranslationCacheRepository,
+  createTranslationQueueRepository,
+  EvictionPolicy,
+} from './repositories';
+
+export * from './repositories';
+export * from './archive';
+export * from './search';
+export { clipDuration, DB_NAME, DB_VERSION, ITEM_SCHEMA_VERSION, openDatabase } from './database';
+
+export type StorageOptions = {
+  indexedDB?: IDBFactory; // Defaults to the browser's; pass a shim in tests
+};
+
+export type StorageUsage = {
+  usage: number; // Bytes
+  quota: number;
+};
+
+const HISTORY_POLICY: EvictionPolicy = { maxItems: 500, maxAgeDays: 180 };
+const TIGHT_HISTORY_POLICY: EvictionPolicy = { maxItems: 100, maxAgeDays: 30 };
+const TIGHT_USAGE_RATIO = 0.8; // Share of the quota above which history is trimmed harder
+const TRANSLATION_CACHE_BYTES = 10 * 1024 * 1024; // A few hundred short clips
+
+// null where the browser can't tell us
+export const estimateStorage = async (): Promise<StorageUsage | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch {
+    return null;
+  }
+};
+
+// One lazily-opened connection shared by every repository
+export const createStorage = ({ indexedDB: factory }: StorageOptions = {}) => {
+  let db: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!db) {
+      db = openDatabase(factory ?? indexedDB);
+      db.catch(() => { db = null; }); // Let the next call retry
+    }
+    return db;
+  };
+
+  const history = createHistoryRepository(getDb);
+  const translations = createTranslationCacheRepository(getDb);
+
+  return {
+    history,
+    favorites: createFavoritesRepository(getDb),
+    audio: createAudioRepository(getDb),
+    profiles: createProfilesRepository(getDb),
+    settings: createSettingsRepository(getDb),
+    phrases: createPhrasesRepository(getDb),
+    translations,
+    queue: createTranslationQueueRepository(getDb),
+    conversations: createConversationsRepository(getDb),
+
+    // Keep Recent bounded, harder when the device is running out of room. Returns evicted ids.
+    async evictHistory() {
+      const estimate = await estimateStorage();
+      const tight = estimate !== null && estimate.quota > 0 && estimate.usage / estimate.quota > TIGHT_USAGE_RATIO;
+      return history.evict(tight ? TIGHT_HISTORY_POLICY : HISTORY_POLICY);
+    },
+
+    // Keep the translation cache within its budget. Returns how many entries were dropped.
+    evictTranslations() {
+      return translations.evict(TRANSLATION_CACHE_BYTES);
+    },
+  };
+};
@@ -0,0 +1,724 @@
+import { AudioClip, CatProfile, Conversation, HistoryItem, QuickPhrase } from '../../types';
+import {
+  INDEX_CREATED_AT,
+  INDEX_LAST_USED,
+  INDEX_PROFILE,
+  INDEX_TAGS,
+  INDEX_TEXT,
+  INDEX_TOKENS,
+  ITEM_SCHEMA_VERSION,
+  requestResult,
+  STORE_AUDIO,
+  STORE_CONVERSATIONS,
+  STORE_FAVORITES,
+  STORE_HISTORY,
+  STORE_PHRASES,
+  STORE_PROFILES,
+  STORE_QUEUE,
+  STORE_SETTINGS,
+  STORE_TRANSLATIONS,
+  transactionDone,
+} from './database';
+import { itemSearchTokens, matchesQuery, normalizeTag, SEARCH_LIMIT, SearchQuery, tokenize } from './search';
+
+export const DEFAULT_PAGE_SIZE = 30;
+
+export type PageRequest = {
+  limit?: number;
+  cursor?: string | null; // From the previous page's nextCursor
+  profileId?: string; // Only items for this cat
+};
+
+export type Page<T> = {
+  items: T[]; // Newest first
+  nextCursor: string | null; // null on the last page
+};
+
+export type EvictionPolicy = {
+  maxItems: number; // Most recent items kept in Recent
+  maxAgeDays: number; // Anything older goes regardless
+};
+
+export interface HistoryRepository {
+  list(request?: PageRequest): Promise<Page<HistoryItem>>;
+  get(id: string): Promise<HistoryItem | undefined>;
+  // Everything, including items only kept alive by a favorite
+  all(): Promise<HistoryItem[]>;
+  // New item together with its audio, in one transaction. A clip already stored under the
+  // same id (a cached translation's) is shared rather than written again.
+  save(item: HistoryItem, audio: AudioClip): Promise<void>;
+  put(item: HistoryItem): Promise<void>;
+  // Favorited items only disappear from Recent; everything else loses its audio too
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+  count(): Promise<number>;
+  findByText(originalText: string): Promise<HistoryItem[]>;
+  // Drops old non-favorited items past the policy; returns the ids removed
+  evict(policy: EvictionPolicy): Promise<string[]>;
+  // Newest first, at most `limit` (SEARCH_LIMIT) results
+  search(query: SearchQuery): Promise<HistoryItem[]>;
+  tags(): Promise<string[]>; // Every tag in use, sorted
+  setTags(id: string, tags: string[]): Promise<HistoryItem | undefined>;
+  // delete() for several items at once; hand the result to restore() to undo
+  deleteMany(ids: string[]): Promise<RemovedItems>;
+  restore(removed: RemovedItems): Promise<void>;
+}
+
+// Records as they were before a bulk removal, enough to put everything back
+export type RemovedItems = {
+  items: HistoryItem[];
+  favorites: FavoriteRef[];
+  audio: AudioClip[]; // One per reference given up, so a clip shared by two items is here twice
+};
+
+// Favorites are references; list() resolves them to the history items
+export interface FavoritesRepository {
+  list(request?: PageRequest): Promise<Page<HistoryItem>>;
+  add(item: HistoryItem): Promise<void>;
+  remove(id: string): Promise<void>;
+  ids(): Promise<string[]>;
+  count(): Promise<number>;
+  // remove() for several items; undo with HistoryRepository.restore()
+  removeMany(ids: string[]): Promise<RemovedItems>;
+}
+
+export interface AudioRepository {
+  get(id: string): Promise<AudioClip | undefined>;
+  put(clip: AudioClip): Promise<void>;
+}
+
+export interface ProfilesRepository {
+  all(): Promise<CatProfile[]>; // Oldest first
+  put(profile: CatProfile): Promise<void>;
+  // The cat's history stays; it just no longer has a profile to filter by
+  delete(id: string): Promise<void>;
+}
+
+export interface PhrasesRepository {
+  all(): Promise<QuickPhrase[]>; // In grid order
+  put(phrase: QuickPhrase): Promise<void>;
+  // Phrase together with its translation's audio, letting go of any older clip
+  putWithAudio(phrase: QuickPhrase, audio: AudioClip): Promise<void>;
+  delete(id: string): Promise<void>; // Lets go of its audio too
+  reorder(ids: string[]): Promise<void>; // New order, first to last
+}
+
+// A translation we can replay instead of asking the models again
+export type CachedTranslation = {
+  key: string; // translationCacheKey of the request
+  catText: string;
+  model?: string; // Missing on entries cached before items recorded it
+  mood?: string; // Model's MOODS key, from structured output
+  intent?: string;
+  audioId: string;
+  bytes: number; // Size of the audio, for the cache budget
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+};
+
+export type CacheStats = {
+  hits: number;
+  misses: number;
+};
+
+export interface TranslationCacheRepository {
+  // Counts the hit or miss; a hit also refreshes the entry's place in the LRU order
+  lookup(key: string): Promise<{ entry: CachedTranslation, clip: AudioClip } | undefined>;
+  // Replaces any entry for the same key, audio included
+  put(entry: CachedTranslation, clip: AudioClip): Promise<void>;
+  // Drops least recently used entries until the audio fits in `maxBytes`; returns how many went
+  evict(maxBytes: number): Promise<number>;
+  stats(): Promise<CacheStats>;
+  clear(): Promise<void>;
+}
+
+// A text translation made offline, run once we're back online
+export type QueuedTranslation = {
+  id: string;
+  text: string;
+  profileId?: string; // Cat it was meant for
+  createdAt: number;
+};
+
+export interface TranslationQueueRepository {
+  all(): Promise<QueuedTranslation[]>; // Oldest first
+  add(entry: QueuedTranslation): Promise<void>;
+  delete(id: string): Promise<void>;
+  count(): Promise<number>;
+}
+
+export interface ConversationsRepository {
+  list(request?: PageRequest): Promise<Page<Conversation>>;
+  get(id: string): Promise<Conversation | undefined>;
+  // Whole conversation so far plus the audio of its newest turn, written as each turn ends
+  save(conversation: Conversation, audio?: AudioClip): Promise<void>;
+  delete(id: string): Promise<void>; // Drops the turns' audio too
+}
+
+export type Settings = {
+  activeProfileId: string;
+  translationCacheStats: CacheStats;
+};
+
+export interface SettingsRepository {
+  get<K extends keyof Settings>(key: K): Promise<Settings[K] | undefined>;
+  set<K extends keyof Settings>(key: K, value: Settings[K]): Promise<void>;
+}
+
+export type FavoriteRef = Pick<HistoryItem, 'id' | 'createdAt' | 'profileId'>;
+
+type GetDb = () => Promise<IDBDatabase>;
+
+// Cursors are opaque to callers: "<createdAt>:<id>" of the last item handed out
+const encodeCursor = (item: { createdAt: number, id: string }) => `${item.createdAt}:${item.id}`;
+
+const decodeCursor = (cursor: string) => {
+  const split = cursor.indexOf(':');
+  return { createdAt: Number(cursor.slice(0, split)), id: cursor.slice(split + 1) };
+};
+
+// Walk a store newest-first from `cursor`, collecting up to `limit` records that pass `accept`
+const readPage = async <T extends { createdAt: number, id: string }>(
+  store: IDBObjectStore,
+  { limit = DEFAULT_PAGE_SIZE, cursor = null, profileId }: PageRequest,
+  accept: (record: T) => boolean = () => true,
+): Promise<Page<T>> => {
+  const after = cursor ? decodeCursor(cursor) : null;
+  const upper = after ? after.createdAt : Infinity;
+
+  const request = profileId !== undefined
+    ? store.index(INDEX_PROFILE).openCursor(IDBKeyRange.bound([profileId, -Infinity], [profileId, upper]), 'prev')
+    : store.index(INDEX_CREATED_AT).openCursor(after ? IDBKeyRange.upperBound(upper) : null, 'prev');
+
+  // One extra record tells us whether there is another page
+  const records = await new Promise<T[]>((resolve, reject) => {
+    const found: T[] = [];
+    request.onsuccess = () => {
+      const current = request.result;
+      if (!current || found.length > limit) {
+        resolve(found);
+        return;
+      }
+      const record = current.value as T;
+      // Same-millisecond records sort by id; skip the ones the last page already had
+      const seen = after && record.createdAt === after.createdAt && record.id >= after.id;
+      if (!seen && accept(record)) found.push(record);
+      current.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  const items = records.slice(0, limit);
+  return {
+    items,
+    nextCursor: records.length > limit ? encodeCursor(items[items.length - 1]) : null,
+  };
+};
+
+// Clips are shared: a cached translation, the history items that replayed it and the phrases
+// prepared from it all point at one copy. `refs` counts those records; clips stored before
+// sharing have none and count as one.
+type StoredClip = AudioClip & { refs?: number };
+
+// Point one more record at a clip, storing `clip` if it isn't there yet
+const retainAudio = async (transaction: IDBTransaction, clip: AudioClip) => {
+  const audio = transaction.objectStore(STORE_AUDIO);
+  const existing = await requestResult(audio.get(clip.id) as IDBRequest<StoredClip | undefined>);
+  audio.put(existing ? { ...existing, refs: (existing.refs ?? 1) + 1 } : { ...clip, refs: 1 });
+};
+
+// One record fewer points at a clip; the last one out deletes it
+const releaseAudio = async (transaction: IDBTransaction, id: string) => {
+  const audio = transaction.objectStore(STORE_AUDIO);
+  const existing = await requestResult(audio.get(id) as IDBRequest<StoredClip | undefined>);
+  if (!existing) return;
+  const refs = (existing.refs ?? 1) - 1;
+  if (refs > 0) audio.put({ ...existing, refs });
+  else audio.delete(id);
+};
+
+const run = async <R>(getDb: GetDb, stores: string[], mode: IDBTransactionMode, body: (transaction: IDBTransaction) => Promise<R>) => {
+  const db = await getDb();
+  const transaction = db.transaction(stores, mode);
+  const done = transactionDone(transaction);
+  const result = await body(transaction);
+  await done;
+  return result;
+};
+
+export const createHistoryRepository = (getDb: GetDb): HistoryRepository => {
+  const isFavorited = async (transaction: IDBTransaction, id: string) =>
+    (await requestResult(transaction.objectStore(STORE_FAVORITES).getKey(id))) !== undefined;
+
+  // Remove an item from Recent, keeping it (hidden) while a favorite points at it.
+  // True when the item went for good and gave up its audio.
+  const removeItem = async (transaction: IDBTransaction, item: HistoryItem) => {
+    const history = transaction.objectStore(STORE_HISTORY);
+    if (await isFavorited(transaction, item.id)) {
+      history.put({ ...item, hiddenFromRecent: true });
+      return false;
+    }
+    history.delete(item.id);
+    await releaseAudio(transaction, item.audioId);
+    return true;
+  };
+
+  const allStores = [STORE_HISTORY, STORE_FAVORITES, STORE_AUDIO];
+
+  // Every write goes through here so the schema version and search index stay current
+  const stored = (item: HistoryItem): HistoryItem =>
+    ({ ...item, schemaVersion: ITEM_SCHEMA_VERSION, searchTokens: itemSearchTokens(item) });
+
+  return {
+    list(request = {}) {
+      return run(getDb, [STORE_HISTORY], 'readonly', (transaction) =>
+        readPage<HistoryItem>(transaction.objectStore(STORE_HISTORY), request, item => !item.hiddenFromRecent));
+    },
+
+    get(id) {
+      return run(getDb, [STORE_HISTORY], 'readonly', (transaction) =>
+        requestResult(transaction.objectStore(STORE_HISTORY).get(id) as IDBRequest<HistoryItem | undefined>));
+    },
+
+    all() {
+      return run(getDb, [STORE_HISTORY], 'readonly', (transaction) =>
+        requestResult(transaction.objectStore(STORE_HISTORY).index(INDEX_CREATED_AT).getAll() as IDBRequest<HistoryItem[]>));
+    },
+
+    save(item, audio) {
+      return run(getDb, [STORE_HISTORY, STORE_AUDIO], 'readwrite', async (transaction) => {
+        await retainAudio(transaction, audio);
+        transaction.objectStore(STORE_HISTORY).put(stored(item));
+      });
+    },
+
+    put(item) {
+      return run(getDb, [STORE_HISTORY], 'readwrite', async (transaction) => {
+        transaction.objectStore(STORE_HISTORY).put(stored(item));
+      });
+    },
+
+    delete(id) {
+      return run(getDb, allStores, 'readwrite', async (transaction) => {
+        const item = await requestResult(transaction.objectStore(STORE_HISTORY).get(id) as IDBRequest<HistoryItem | undefined>);
+        if (item) await removeItem(transaction, item);
+      });
+    },
+
+    clear() {
+      return run(getDb, allStores, 'readwrite', async (transaction) => {
+        const items = await requestResult(transaction.objectStore(STORE_HISTORY).getAll() as IDBRequest<HistoryItem[]>);
+        for (const item of items.filter(i => !i.hiddenFromRecent)) await removeItem(transaction, item);
+      });
+    },
+
+    count() {
+      return run(getDb, [STORE_HISTORY], 'readonly', (transaction) =>
+        requestResult(transaction.objectStore(STORE_HISTORY).count()));
+    },
+
+    findByText(originalText) {
+      return run(getDb, [STORE_HISTORY], 'readonly', async (transaction) => {
+        const index = transaction.objectStore(STORE_HISTORY).index(INDEX_TEXT);
+        const items = await requestResult(index.getAll(originalText) as IDBRequest<HistoryItem[]>);
+        return items.sort((a, b) => b.createdAt - a.createdAt);
+      });
+    },
+
+    evict({ maxItems, maxAgeDays }) {
+      return run(getDb, allStores, 'readwrite', async (transaction) => {
+        const history = transaction.objectStore(STORE_HISTORY);
+        const favorited = new Set((await requestResult(transaction.objectStore(STORE_FAVORITES).getAllKeys())).map(String));
+        const items = await requestResult(history.index(INDEX_CREATED_AT).getAll() as IDBRequest<HistoryItem[]>);
+        const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+        // Oldest first; favorites never count against the limit and are never evicted
+        const candidates = items.filter(item => !favorited.has(item.id));
+        const removed: string[] = [];
+        for (const item of candidates) {
+          const overLimit = candidates.length - removed.length > maxItems;
+          if (!overLimit && item.createdAt >= cutoff) break;
+          history.delete(item.id);
+          await releaseAudio(transaction, item.audioId);
+          removed.push(item.id);
+        }
+        return removed;
+      });
+    },
+
+    search(query) {
+      return run(getDb, [STORE_HISTORY, STORE_FAVORITES], 'readonly', async (transaction) => {
+        const history = transaction.objectStore(STORE_HISTORY);
+        const { text = '', tags = [], from, to, scope = 'recent', limit = SEARCH_LIMIT } = query;
+        const words = tokenize(text);
+
+        // Let an index narrow things down, then check everything else on the candidates
+        let candidates: HistoryItem[];
+        if (words.length > 0) {
+          // The longest word is usually the most selective
+          const word = words.reduce((a, b) => b.length > a.length ? b : a);
+          const range = IDBKeyRange.bound(word, word + '\uffff');
+          candidates = await requestResult(history.index(INDEX_TOKENS).getAll(range) as IDBRequest<HistoryItem[]>);
+        } else if (tags.length > 0) {
+          candidates = await requestResult(history.index(INDEX_TAGS).getAll(tags[0]) as IDBRequest<HistoryItem[]>);
+        } else {
+          const range = IDBKeyRange.bound(from ?? -Infinity, to ?? Infinity);
+          candidates = await requestResult(history.index(INDEX_CREATED_AT).getAll(range) as IDBRequest<HistoryItem[]>);
+        }
+
+        const favoriteIds = scope === 'favorites'
+          ? new Set((await requestResult(transaction.objectStore(STORE_FAVORITES).getAllKeys())).map(String))
+          : null;
+        const seen = new Set<string>(); // A prefix can match several words of one item
+        return candidates
+          .filter(item => {
+            if (seen.has(item.id)) return false;
+            seen.add(item.id);
+            const inScope = favoriteIds ? favoriteIds.has(item.id) : !item.hiddenFromRecent;
+            return inScope && matchesQuery(item, words, query);
+          })
+          .sort((a, b) => b.createdAt - a.createdAt)
+          .slice(0, limit);
+      });
+    },
+
+    tags() {
+      return run(getDb, [STORE_HISTORY], 'readonly', (transaction) =>
+        new Promise<string[]>((resolve, reject) => {
+          const tags: string[] = [];
+          const request = transaction.objectStore(STORE_HISTORY).index(INDEX_TAGS).openKeyCursor(null, 'nextunique');
+          request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+              resolve(tags);
+              return;
+            }
+            tags.push(String(cursor.key));
+            cursor.continue();
+          };
+          request.onerror = () => reject(request.error);
+        }));
+    },
+
+    setTags(id, tags) {
+      return run(getDb, [STORE_HISTORY], 'readwrite', async (transaction) => {
+        const history = transaction.objectStore(STORE_HISTORY);
+        const item = await requestResult(history.get(id) as IDBRequest<HistoryItem | undefined>);
+        if (!item) return undefined;
+        const normalized = [...new Set(tags.map(normalizeTag).filter(Boolean))];
+        const updated = stored({ ...item, tags: normalized.length > 0 ? normalized : undefined });
+        history.put(updated);
+        return updated;
+      });
+    },
+
+    deleteMany(ids) {
+      return run(getDb, allStores, 'readwrite', async (transaction) => {
+        const removed: RemovedItems = { items: [], favorites: [], audio: [] };
+        for (const id of ids) {
+          const item = await requestResult(transaction.objectStore(STORE_HISTORY).get(id) as IDBRequest<HistoryItem | undefined>);
+          if (!item || item.hiddenFromRecent) continue;
+          removed.items.push(item);
+          const clip = await requestResult(transaction.objectStore(STORE_AUDIO).get(item.audioId) as IDBRequest<AudioClip | undefined>);
+          if (await removeItem(transaction, item) && clip) removed.audio.push(clip);
+        }
+        return removed;
+      });
+    },
+
+    restore({ items, favorites, audio }) {
+      return run(getDb, allStores, 'readwrite', async (transaction) => {
+        for (const clip of audio) await retainAudio(transaction, clip);
+        items.forEach(item => transaction.objectStore(STORE_HISTORY).put(stored(item)));
+        favorites.forEach(ref => transaction.objectStore(STORE_FAVORITES).put(ref));
+      });
+    },
+  };
+};
+
+export const createFavoritesRepository = (getDb: GetDb): FavoritesRepository => ({
+  list(request = {}) {
+    return run(getDb, [STORE_FAVORITES, STORE_HISTORY], 'readonly', async (transaction) => {
+      const page = await readPage<FavoriteRef>(transaction.objectStore(STORE_FAVORITES), request);
+      const history = transaction.objectStore(STORE_HISTORY);
+      const items = await Promise.all(page.items.map(ref =>
+        requestResult(history.get(ref.id) as IDBRequest<HistoryItem | undefined>)));
+      return { items: items.filter((item): item is HistoryItem => item !== undefined), nextCursor: page.nextCursor };
+    });
+  },
+
+  add(item) {
+    return run(getDb, [STORE_FAVORITES], 'readwrite', async (transaction) => {
+      const ref: FavoriteRef = { id: item.id, createdAt: item.createdAt, profileId: item.profileId };
+      transaction.objectStore(STORE_FAVORITES).put(ref);
+    });
+  },
+
+  // Unfavoriting something already cleared from Recent deletes it for good
+  remove(id) {
+    return run(getDb, [STORE_FAVORITES, STORE_HISTORY, STORE_AUDIO], 'readwrite', async (transaction) => {
+      transaction.objectStore(STORE_FAVORITES).delete(id);
+      const history = transaction.objectStore(STORE_HISTORY);
+      const item = await requestResult(history.get(id) as IDBRequest<HistoryItem | undefined>);
+      if (item?.hiddenFromRecent) {
+        history.delete(id);
+        await releaseAudio(transaction, item.audioId);
+      }
+    });
+  },
+
+  ids() {
+    return run(getDb, [STORE_FAVORITES], 'readonly', async (transaction) =>
+      (await requestResult(transaction.objectStore(STORE_FAVORITES).getAllKeys())).map(String));
+  },
+
+  count() {
+    return run(getDb, [STORE_FAVORITES], 'readonly', (transaction) =>
+      requestResult(transaction.objectStore(STORE_FAVORITES).count()));
+  },
+
+  removeMany(ids) {
+    return run(getDb, [STORE_FAVORITES, STORE_HISTORY, STORE_AUDIO], 'readwrite', async (transaction) => {
+      const removed: RemovedItems = { items: [], favorites: [], audio: [] };
+      const favorites = transaction.objectStore(STORE_FAVORITES);
+      const history = transaction.objectStore(STORE_HISTORY);
+      for (const id of ids) {
+        const ref = await requestResult(favorites.get(id) as IDBRequest<FavoriteRef | undefined>);
+        if (!ref) continue;
+        removed.favorites.push(ref);
+        favorites.delete(id);
+
+        // Same as remove(): nothing else keeps a cleared item alive
+        const item = await requestResult(history.get(id) as IDBRequest<HistoryItem | undefined>);
+        if (item?.hiddenFromRecent) {
+          removed.items.push(item);
+          const clip = await requestResult(transaction.objectStore(STORE_AUDIO).get(item.audioId) as IDBRequest<AudioClip | undefined>);
+          if (clip) removed.audio.push(clip);
+          history.delete(id);
+          await releaseAudio(transaction, item.audioId);
+        }
+      }
+      return removed;
+    });
+  },
+});
+
+export const createAudioRepository = (getDb: GetDb): AudioRepository => ({
+  get(id) {
+    return run(getDb, [STORE_AUDIO], 'readonly', (transaction) =>
+      requestResult(transaction.objectStore(STORE_AUDIO).get(id) as IDBRequest<AudioClip | undefined>));
+  },
+
+  put(clip) {
+    return run(getDb, [STORE_AUDIO], 'readwrite', async (transaction) => {
+      transaction.objectStore(STORE_AUDIO).put(clip);
+    });
+  },
+});
+
+export const createProfilesRepository = (getDb: GetDb): ProfilesRepository => ({
+  all() {
+    return run(getDb, [STORE_PROFILES], 'readonly', async (transaction) => {
+      const profiles = await requestResult(transaction.objectStore(STORE_PROFILES).getAll() as IDBRequest<CatProfile[]>);
+      return profiles.sort((a, b) => a.createdAt - b.createdAt);
+    });
+  },
+
+  put(profile) {
+    return run(getDb, [STORE_PROFILES], 'readwrite', async (transaction) => {
+      transaction.objectStore(STORE_PROFILES).put(profile);
+    });
+  },
+
+  delete(id) {
+    return run(getDb, [STORE_PROFILES], 'readwrite', async (transaction) => {
+      transaction.objectStore(STORE_PROFILES).delete(id);
+    });
+  },
+});
+
+export const createSettingsRepository = (getDb: GetDb): SettingsRepository => ({
+  get(key) {
+    return run(getDb, [STORE_SETTINGS], 'readonly', (transaction) =>
+      requestResult(transaction.objectStore(STORE_SETTINGS).get(key)));
+  },
+
+  set(key, value) {
+    return run(getDb, [STORE_SETTINGS], 'readwrite', async (transaction) => {
+      transaction.objectStore(STORE_SETTINGS).put(value, key);
+    });
+  },
+});
+
+export const createPhrasesRepository = (getDb: GetDb): PhrasesRepository => ({
+  all() {
+    return run(getDb, [STORE_PHRASES], 'readonly', async (transaction) => {
+      const phrases = await requestResult(transaction.objectStore(STORE_PHRASES).getAll() as IDBRequest<QuickPhrase[]>);
+      return phrases.sort((a, b) => a.order - b.order);
+    });
+  },
+
+  put(phrase) {
+    return run(getDb, [STORE_PHRASES], 'readwrite', async (transaction) => {
+      transaction.objectStore(STORE_PHRASES).put(phrase);
+    });
+  },
+
+  putWithAudio(phrase, audio) {
+    return run(getDb, [STORE_PHRASES, STORE_AUDIO], 'readwrite', async (transaction) => {
+      const phrases = transaction.objectStore(STORE_PHRASES);
+      const previous = await requestResult(phrases.get(phrase.id) as IDBRequest<QuickPhrase | undefined>);
+      if (previous?.audio?.audioId !== audio.id) {
+        if (previous?.audio) await releaseAudio(transaction, previous.audio.audioId);
+        await retainAudio(transaction, audio);
+      }
+      phrases.put(phrase);
+    });
+  },
+
+  delete(id) {
+    return run(getDb, [STORE_PHRASES, STORE_AUDIO], 'readwrite', async (transaction) => {
+      const phrases = transaction.objectStore(STORE_PHRASES);
+      const phrase = await requestResult(phrases.get(id) as IDBRequest<QuickPhrase | undefined>);
+      if (phrase?.audio) await releaseAudio(transaction, phrase.audio.audioId);
+      phrases.delete(id);
+    });
+  },
+
+  reorder(ids) {
+    return run(getDb, [STORE_PHRASES], 'readwrite', async (transaction) => {
+      const phrases = transaction.objectStore(STORE_PHRASES);
+      await Promise.all(ids.map(async (id, order) => {
+        const phrase = await requestResult(phrases.get(id) as IDBRequest<QuickPhrase | undefined>);
+        if (phrase && phrase.order !== order) phrases.put({ ...phrase, order });
+      }));
+    });
+  },
+});
+
+export const createTranslationCacheRepository = (getDb: GetDb): TranslationCacheRepository => {
+  const readStats = async (transaction: IDBTransaction): Promise<CacheStats> =>
+    (await requestResult(transaction.objectStore(STORE_SETTINGS).get('translationCacheStats'))) ?? { hits: 0, misses: 0 };
+
+  return {
+    lookup(key) {
+      return run(getDb, [STORE_TRANSLATIONS, STORE_AUDIO, STORE_SETTINGS], 'readwrite', async (transaction) => {
+        const translations = transaction.objectStore(STORE_TRANSLATIONS);
+        const entry = await requestResult(translations.get(key) as IDBRequest<CachedTranslation | undefined>);
+        const clip = entry && await requestResult(transaction.objectStore(STORE_AUDIO).get(entry.audioId) as IDBRequest<AudioClip | undefined>);
+
+        const stats = await readStats(transaction);
+        const hit = entry && clip ? { entry: { ...entry, lastUsedAt: Date.now(), hits: entry.hits + 1 }, clip } : undefined;
+        if (hit) translations.put(hit.entry);
+        transaction.objectStore(STORE_SETTINGS).put(
+          hit ? { ...stats, hits: stats.hits + 1 } : { ...stats, misses: stats.misses + 1 },
+          'translationCacheStats');
+        return hit;
+      });
+    },
+
+    put(entry, clip) {
+      return run(getDb, [STORE_TRANSLATIONS, STORE_AUDIO], 'readwrite', async (transaction) => {
+        const translations = transaction.objectStore(STORE_TRANSLATIONS);
+        const previous = await requestResult(translations.get(entry.key) as IDBRequest<CachedTranslation | undefined>);
+        if (previous?.audioId !== clip.id) {
+          if (previous) await releaseAudio(transaction, previous.audioId);
+          await retainAudio(transaction, clip);
+        }
+        translations.put(entry);
+      });
+    },
+
+    evict(maxBytes) {
+      return run(getDb, [STORE_TRANSLATIONS, STORE_AUDIO], 'readwrite', async (transaction) => {
+        const translations = transaction.objectStore(STORE_TRANSLATIONS);
+        const entries = await requestResult(translations.index(INDEX_LAST_USED).getAll() as IDBRequest<CachedTranslation[]>);
+
+        // Keep the most recently used entries that fit
+        let total = 0;
+        let removed = 0;
+        for (const entry of entries.reverse()) {
+          total += entry.bytes;
+          if (total <= maxBytes) continue;
+          // History items and phrases made from the entry keep playing its audio
+          translations.delete(entry.key);
+          await releaseAudio(transaction, entry.audioId);
+          removed++;
+        }
+        return removed;
+      });
+    },
+
+    stats() {
+      return run(getDb, [STORE_SETTINGS], 'readonly', readStats);
+    },
+
+    clear() {
+      return run(getDb, [STORE_TRANSLATIONS, STORE_AUDIO, STORE_SETTINGS], 'readwrite', async (transaction) => {
+        const translations = transaction.objectStore(STORE_TRANSLATIONS);
+        const entries = await requestResult(translations.getAll() as IDBRequest<CachedTranslation[]>);
+        for (const entry of entries) await releaseAudio(transaction, entry.audioId);
+        translations.clear();
+        transaction.objectStore(STORE_SETTINGS).delete('translationCacheStats');
+      });
+    },
+  };
+};
+
+export const createTranslationQueueRepository = (getDb: GetDb): TranslationQueueRepository => ({
+  all() {
+    return run(getDb, [STORE_QUEUE], 'readonly', async (transaction) => {
+      const entries = await requestResult(transaction.objectStore(STORE_QUEUE).getAll() as IDBRequest<QueuedTranslation[]>);
+      return entries.sort((a, b) => a.createdAt - b.createdAt);
+    });
+  },
+
+  add(entry) {
+    return run(getDb, [STORE_QUEUE], 'readwrite', async (transaction) => {
+      transaction.objectStore(STORE_QUEUE).put(entry);
+    });
+  },
+
+  delete(id) {
+    return run(getDb, [STORE_QUEUE], 'readwrite', async (transaction) => {
+      transaction.objectStore(STORE_QUEUE).delete(id);
+    });
+  },
+
+  count() {
+    return run(getDb, [STORE_QUEUE], 'readonly', (transaction) =>
+      requestResult(transaction.objectStore(STORE_QUEUE).count()));
+  },
+});
+
+export const createConversationsRepository = (getDb: GetDb): ConversationsRepository => ({
+  list(request = {}) {
+    return run(getDb, [STORE_CONVERSATIONS], 'readonly', (transaction) =>
+      readPage<Conversation>(transaction.objectStore(STORE_CONVERSATIONS), request));
+  },
+
+  get(id) {
+    return run(getDb, [STORE_CONVERSATIONS], 'readonly', (transaction) =>
+      requestResult(transaction.objectStore(STORE_CONVERSATIONS).get(id) as IDBRequest<Conversation | undefined>));
+  },
+
+  save(conversation, audio) {
+    return run(getDb, [STORE_CONVERSATIONS, STORE_AUDIO], 'readwrite', async (transaction) => {
+      if (audio) await retainAudio(transaction, audio);
+      transaction.objectStore(STORE_CONVERSATIONS).put(conversation);
+    });
+  },
+
+  delete(id) {
+    return run(getDb, [STORE_CONVERSATIONS, STORE_AUDIO], 'readwrite', async (transaction) => {
+      const store = transaction.objectStore(STORE_CONVERSATIONS);
+      const conversation = await requestResult(store.get(id) as IDBRequest<Conversation | undefined>);
+      if (!conversation) return;
+      store.delete(id);
+      for (const turn of conversation.turns) {
+        if (turn.audioId) await releaseAudio(transaction, turn.audioId);
+      }
+    });
+  },
+});
@@ -0,0 +1,51 @@
+import { VOCALIZATIONS } from '../../constants';
+import { HistoryItem } from '../../types';
+
+// Word-level search over saved items. Items carry their words (`searchTokens`) so a
+// multiEntry index can find them; queries match words by prefix, so "hun" finds "Hungry?".
+
+export type SearchQuery = {
+  text?: string;
+  tags?: string[]; // Items must have all of them
+  from?: number; // createdAt range, inclusive, ms since epoch
+  to?: number;
+  voice?: string;
+  profileId?: string;
+  scope?: 'recent' | 'favorites';
+  limit?: number;
+};
+
+export const SEARCH_LIMIT = 200;
+const MAX_TOKEN_LENGTH = 32;
+
+export function tokenize(text: string): string[] {
+  const words = text
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map(word => word.slice(0, MAX_TOKEN_LENGTH));
+  return [...new Set(words)];
+}
+
+// Tags are matched whole, so they're normalized rather than split
+export function normalizeTag(tag: string): string {
+  return tag.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TOKEN_LENGTH);
+}
+
+export function itemSearchTokens(item: HistoryItem): string[] {
+  const text = item.kind === 'listen'
+    ? [item.interpretation, VOCALIZATIONS[item.vocalization]?.label ?? '']
+    : [item.originalText, item.catText];
+  return tokenize([...text, ...(item.tags ?? [])].join(' '));
+}
+
+export function matchesQuery(item: HistoryItem, words: string[], { tags = [], from, to, voice, profileId }: SearchQuery): boolean {
+  if (from !== undefined && item.createdAt < from) return false;
+  if (to !== undefined && item.createdAt > to) return false;
+  if (voice !== undefined && item.voice !== voice) return false;
+  if (profileId !== undefined && item.profileId !== profileId) return false;
+  if (!tags.every(tag => item.tags?.includes(tag))) return false;
+  const tokens = item.searchTokens ?? itemSearchTokens(item);
+  return words.every(word => tokens.some(token => token.startsWith(word)));
+}
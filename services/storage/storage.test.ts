@@ -0,0 +1,275 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PHRASES, OUTPUT_SAMPLE_RATE } from '../../constants';
+import { HistoryItem } from '../../types';
+import { base64Encode } from '../../utils/audio';
+import { DB_NAME, DB_VERSION, ITEM_SCHEMA_VERSION, openDatabase } from './database';
+import { createStorage } from './index';
+
+// Each test gets its own in-memory IndexedDB
+let factory: IDBFactory;
+beforeEach(() => {
+  factory = new IDBFactory();
+});
+
+const pcm16 = (samples: number) => new Int16Array(samples).fill(1000).buffer;
+
+const translation = (id: string, createdAt: number, extra: Partial<HistoryItem> = {}): HistoryItem => ({
+  id,
+  createdAt,
+  audioId: id,
+  originalText: `text ${id}`,
+  catText: 'Meow',
+  ...extra,
+} as HistoryItem);
+
+// Database as the first release left it: items with inline base64 audio, favorites as full copies
+const createV1Database = (records: { history: object[], favorites: object[] }) =>
+  new Promise<void>((resolve, reject) => {
+    const request = factory.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const history = db.createObjectStore('history', { keyPath: 'id' });
+      const favorites = db.createObjectStore('favorites', { keyPath: 'id' });
+      records.history.forEach(record => history.put(record));
+      records.favorites.forEach(record => favorites.put(record));
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+describe('migrations', () => {
+  it('creates every store on a fresh database', async () => {
+    const db = await openDatabase(factory);
+    expect(db.version).toBe(DB_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual(
+      ['audio', 'conversations', 'favorites', 'history', 'phrases', 'profiles', 'queue', 'settings', 'translations']);
+    db.close();
+
+    const phrases = await createStorage({ indexedDB: factory }).phrases.all();
+    expect(phrases.map(p => p.id)).toEqual(DEFAULT_PHRASES.map(p => p.id));
+  });
+
+  it(`upgrades a version 1 database to version ${DB_VERSION}`, async () => {
+    const audio = base64Encode(pcm16(OUTPUT_SAMPLE_RATE / 2));
+    await createV1Database({
+      history: [
+        { id: '1700000000000', originalText: 'Hello kitty', catText: 'Mrrp!', audioBase64: audio },
+        { id: '1700000001000', originalText: 'Dinner time', catText: 'MEOW', audioBase64: audio },
+      ],
+      favorites: [
+        { id: '1700000001000', originalText: 'Dinner time', catText: 'MEOW', audioBase64: audio },
+        // Cleared from history before favorites became references
+        { id: '1600000000000', originalText: 'Old friend', catText: 'Purr', audioBase64: audio },
+      ],
+    });
+
+    const storage = createStorage({ indexedDB: factory });
+    const recent = await storage.history.list();
+    expect(recent.items.map(item => item.id)).toEqual(['1700000001000', '1700000000000']);
+    expect(recent.items[1]).toMatchObject({
+      createdAt: 1700000000000,
+      audioId: '1700000000000',
+      originalText: 'Hello kitty',
+      schemaVersion: ITEM_SCHEMA_VERSION,
+      durationMs: 500,
+    });
+    expect(recent.items[1]).not.toHaveProperty('audioBase64');
+
+    const clip = await storage.audio.get('1700000000000');
+    expect(clip?.sampleRate).toBe(OUTPUT_SAMPLE_RATE);
+    expect(clip?.pcm16.byteLength).toBe(OUTPUT_SAMPLE_RATE);
+
+    // The orphaned favorite lives on as a hidden history item
+    const favorites = await storage.favorites.list();
+    expect(favorites.items.map(item => item.id)).toEqual(['1700000001000', '1600000000000']);
+    expect(favorites.items[1]).toMatchObject({ hiddenFromRecent: true, createdAt: 1600000000000, durationMs: 500 });
+    expect(await storage.audio.get('1600000000000')).toBeDefined();
+
+    // Search index backfilled, later stores created
+    expect((await storage.history.search({ text: 'kitty' })).map(item => item.id)).toEqual(['1700000000000']);
+    expect((await storage.phrases.all()).length).toBe(DEFAULT_PHRASES.length);
+    expect(await storage.queue.count()).toBe(0);
+    expect((await storage.conversations.list()).items).toEqual([]);
+  });
+});
+
+describe('paging', () => {
+  it('pages newest first without gaps or repeats', async () => {
+    const { history } = createStorage({ indexedDB: factory });
+    // Several items share a millisecond, so the cursor has to break ties by id
+    const items = [1000, 2000, 2000, 2000, 3000, 4000, 4000].map((createdAt, i) => translation(`item${i}`, createdAt));
+    for (const item of items) await history.save(item, { id: item.audioId, pcm16: pcm16(10), sampleRate: OUTPUT_SAMPLE_RATE });
+
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    let pages = 0;
+    do {
+      const page = await history.list({ limit: 2, cursor });
+      expect(page.items.length).toBeLessThanOrEqual(2);
+      seen.push(...page.items.map(item => item.id));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(4);
+    expect(seen).toEqual(['item6', 'item5', 'item4', 'item3', 'item2', 'item1', 'item0']);
+  });
+
+  it('returns no cursor when everything fits on one page', async () => {
+    const { history } = createStorage({ indexedDB: factory });
+    const item = translation('only', 1000);
+    await history.save(item, { id: item.audioId, pcm16: pcm16(10), sampleRate: OUTPUT_SAMPLE_RATE });
+    expect(await history.list({ limit: 1 })).toMatchObject({ items: [{ id: 'only' }], nextCursor: null });
+  });
+
+  it('pages one cat at a time and skips items hidden from Recent', async () => {
+    const { history } = createStorage({ indexedDB: factory });
+    const items = [
+      translation('a1', 1000, { profileId: 'a' }),
+      translation('b1', 2000, { profileId: 'b' }),
+      translation('a2', 3000, { profileId: 'a', hiddenFromRecent: true }),
+      translation('a3', 4000, { profileId: 'a' }),
+      translation('a4', 5000, { profileId: 'a' }),
+    ];
+    for (const item of items) await history.save(item, { id: item.audioId, pcm16: pcm16(10), sampleRate: OUTPUT_SAMPLE_RATE });
+
+    const first = await history.list({ limit: 2, profileId: 'a' });
+    expect(first.items.map(item => item.id)).toEqual(['a4', 'a3']);
+    const second = await history.list({ limit: 2, profileId: 'a', cursor: first.nextCursor });
+    expect(second).toMatchObject({ items: [{ id: 'a1' }], nextCursor: null });
+  });
+});
+
+describe('shared audio', () => {
+  const clip = { id: 'translation:1', pcm16: pcm16(10), sampleRate: OUTPUT_SAMPLE_RATE };
+  const entry = (key: string, audioId: string, lastUsedAt: number) =>
+    ({ key, catText: 'Meow', audioId, bytes: 20, createdAt: lastUsedAt, lastUsedAt, hits: 0 });
+
+  it('keeps a cached clip while history items still play it', async () => {
+    const storage = createStorage({ indexedDB: factory });
+    await storage.translations.put(entry('hello', clip.id, 1), clip);
+    await storage.history.save(translation('1', 1, { audioId: clip.id }), clip);
+    await storage.history.save(translation('2', 2, { audioId: clip.id }), clip);
+
+    expect(await storage.translations.evict(0)).toBe(1);
+    expect(await storage.audio.get(clip.id)).toBeDefined();
+    await storage.history.delete('1');
+    expect(await storage.audio.get(clip.id)).toBeDefined();
+    await storage.history.delete('2');
+    expect(await storage.audio.get(clip.id)).toBeUndefined();
+  });
+
+  it('keeps history audio when the cache entry is replaced or cleared', async () => {
+    const storage = createStorage({ indexedDB: factory });
+    await storage.translations.put(entry('hello', clip.id, 1), clip);
+    await storage.history.save(translation('1', 1, { audioId: clip.id }), clip);
+
+    const rerolled = { ...clip, id: 'translation:2' };
+    await storage.translations.put(entry('hello', rerolled.id, 2), rerolled);
+    expect(await storage.audio.get(clip.id)).toBeDefined();
+
+    await storage.translations.clear();
+    expect(await storage.audio.get(rerolled.id)).toBeUndefined();
+    expect(await storage.audio.get(clip.id)).toBeDefined();
+  });
+
+  it('lets a phrase share the cached clip', async () => {
+    const storage = createStorage({ indexedDB: factory });
+    await storage.translations.put(entry('hello', clip.id, 1), clip);
+    const phrase = { ...DEFAULT_PHRASES[0], order: 0, audio: { key: 'hello', audioId: clip.id, catText: 'Meow' } };
+    await storage.phrases.putWithAudio(phrase, clip);
+    await storage.phrases.putWithAudio(phrase, clip); // Same clip again takes no extra reference
+
+    await storage.translations.evict(0);
+    expect(await storage.audio.get(clip.id)).toBeDefined();
+    await storage.phrases.delete(phrase.id);
+    expect(await storage.audio.get(clip.id)).toBeUndefined();
+  });
+
+  it('puts shared references back on undo', async () => {
+    const storage = createStorage({ indexedDB: factory });
+    await storage.history.save(translation('1', 1, { audioId: clip.id }), clip);
+    await storage.history.save(translation('2', 2, { audioId: clip.id }), clip);
+
+    const removed = await storage.history.deleteMany(['1', '2']);
+    expect(await storage.audio.get(clip.id)).toBeUndefined();
+    await storage.history.restore(removed);
+
+    await storage.history.delete('1');
+    expect(await storage.audio.get(clip.id)).toBeDefined();
+    await storage.history.delete('2');
+    expect(await storage.audio.get(clip.id)).toBeUndefined();
+  });
+});
+
+describe('eviction', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const now = Date.now();
+
+  // One item per age in days, oldest first, each with its own clip
+  const seed = async (ages: number[]) => {
+    const storage = createStorage({ indexedDB: factory });
+    for (const [i, age] of ages.entries()) {
+      const item = translation(`item${i}`, now - age * DAY);
+      await storage.history.save(item, { id: item.audioId, pcm16: pcm16(10), sampleRate: OUTPUT_SAMPLE_RATE });
+    }
+    return storage;
+  };
+
+  const ids = async (storage: ReturnType<typeof createStorage>) => (await storage.history.list()).items.map(item => item.id).reverse();
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('drops the oldest items past maxItems and their audio', async () => {
+    const storage = await seed([5, 4, 3, 2, 1]);
+    expect(await storage.history.evict({ maxItems: 3, maxAgeDays: 365 })).toEqual(['item0', 'item1']);
+    expect(await ids(storage)).toEqual(['item2', 'item3', 'item4']);
+    expect(await storage.audio.get('item0')).toBeUndefined();
+    expect(await storage.audio.get('item2')).toBeDefined();
+  });
+
+  it('drops items older than maxAgeDays even under the limit', async () => {
+    const storage = await seed([40, 31, 29, 1]);
+    expect(await storage.history.evict({ maxItems: 100, maxAgeDays: 30 })).toEqual(['item0', 'item1']);
+    expect(await ids(storage)).toEqual(['item2', 'item3']);
+  });
+
+  it('never evicts favorites, nor counts them against the limit', async () => {
+    const storage = await seed([400, 300, 3, 2, 1]);
+    const [oldest, old] = (await storage.history.list()).items.reverse();
+    await storage.favorites.add(oldest);
+    await storage.favorites.add(old);
+
+    expect(await storage.history.evict({ maxItems: 2, maxAgeDays: 30 })).toEqual(['item2']);
+    expect((await storage.favorites.list()).items.map(item => item.id)).toEqual(['item1', 'item0']);
+    expect(await storage.audio.get('item0')).toBeDefined();
+  });
+
+  it('keeps audio another record still plays', async () => {
+    const storage = createStorage({ indexedDB: factory });
+    const clip = { id: 'translation:1', pcm16: pcm16(10), sampleRate: OUTPUT_SAMPLE_RATE };
+    await storage.translations.put({ key: 'hello', catText: 'Meow', audioId: clip.id, bytes: 20, createdAt: now, lastUsedAt: now, hits: 0 }, clip);
+    await storage.history.save(translation('old', now - 400 * DAY, { audioId: clip.id }), clip);
+
+    expect(await storage.history.evict({ maxItems: 100, maxAgeDays: 30 })).toEqual(['old']);
+    expect(await storage.audio.get(clip.id)).toBeDefined();
+  });
+
+  it.each<[string, { usage: number, quota: number } | null, string[]]>([
+    ['no estimate', null, ['item0']],
+    ['plenty of room', { usage: 50, quota: 100 }, ['item0']],
+    ['an unknown quota', { usage: 50, quota: 0 }, ['item0']],
+    ['over 80% of the quota', { usage: 81, quota: 100 }, ['item0', 'item1']],
+  ])('evictHistory uses the tighter policy only when storage is nearly full (%s)', async (_, estimate, evicted) => {
+    vi.stubGlobal('navigator', estimate ? { storage: { estimate: async () => estimate } } : {});
+    const storage = await seed([200, 60, 1]);
+    expect(await storage.evictHistory()).toEqual(evicted);
+  });
+});
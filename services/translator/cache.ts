@@ -0,0 +1,24 @@
+import { CatPersona } from './persona';
+import { PROMPT_VERSION } from './prompts';
+
+export type TranslationKeyInput = {
+  text: string;
+  voice: string;
+  persona?: CatPersona;
+  backend: string; // TranslatorBackend name; the offline backend answers differently
+};
+
+// "  Hello!! " and "hello" are the same request; a question mark changes the meaning, so it stays
+export function normalizeInput(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.!,;:~]+$/, '')
+    .trim();
+}
+
+// Everything that changes what the model would say back
+export function translationCacheKey({ text, voice, persona, backend }: TranslationKeyInput): string {
+  return JSON.stringify([PROMPT_VERSION, backend, voice, persona ?? null, normalizeInput(text)]);
+}
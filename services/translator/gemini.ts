@@ -0,0 +1,155 @@
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { MOODS, VOCALIZATIONS } from '../../constants';
+import { base64Encode, encodeWav } from '../../utils/audio';
+import { parseCatInterpretation } from './interpretation';
+import { buildSystemInstruction, buildTranslatePrompt } from './prompts';
+import { parseCatTranslation } from './translation';
+import { TranslatorBackend } from './types';
+
+const TEXT_MODEL = "gemini-2.5-flash";
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const LIVE_MODEL = "gemini-2.0-flash-exp";
+
+const LISTEN_PROMPT = `You are an expert in feline behaviour. The attached audio is a recording of a cat.
+Classify the main vocalization as exactly one of: ${Object.keys(VOCALIZATIONS).join(', ')}.
+Then explain in one short, friendly sentence written from the cat's point of view what the cat is most likely trying to say.
+Rate your confidence from 0 to 1 (use a low value if the clip is mostly silence or not a cat).
+Pick the mood that fits best from: ${Object.keys(MOODS).join(', ')}.`;
+
+const LISTEN_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    vocalization: { type: Type.STRING, enum: Object.keys(VOCALIZATIONS) },
+    interpretation: { type: Type.STRING },
+    confidence: { type: Type.NUMBER },
+    mood: { type: Type.STRING, enum: Object.keys(MOODS) },
+  },
+  required: ['vocalization', 'interpretation', 'confidence', 'mood'],
+};
+
+const TRANSLATE_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    catText: { type: Type.STRING },
+    ttsText: { type: Type.STRING },
+    mood: { type: Type.STRING, enum: Object.keys(MOODS) },
+    intensity: { type: Type.NUMBER },
+    intent: { type: Type.STRING },
+  },
+  required: ['catText', 'ttsText', 'mood', 'intensity', 'intent'],
+};
+
+export const createGeminiBackend = (apiKey: string | undefined): TranslatorBackend => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+
+    async translateText(text, persona) {
+      const textResult = await ai.models.generateContent({
+        model: TEXT_MODEL,
+        contents: [{ parts: [{ text: buildTranslatePrompt(text, persona) }] }],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: TRANSLATE_RESPONSE_SCHEMA,
+        },
+      });
+      return parseCatTranslation(textResult.text, TEXT_MODEL);
+    },
+
+    async synthesize(catText, voice) {
+      const audioResult = await ai.models.generateContent({
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text: catText }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+          },
+        }
+      });
+
+      // Robustly find the audio part
+      for (const part of audioResult.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.data) return part.inlineData.data;
+      }
+      console.error("No audio content in response", JSON.stringify(audioResult, null, 2));
+      return null;
+    },
+
+    async interpretCatAudio(pcm16, sampleRate) {
+      const result = await ai.models.generateContent({
+        model: TEXT_MODEL,
+        contents: [{
+          parts: [
+            { inlineData: { mimeType: "audio/wav", data: base64Encode(encodeWav(pcm16, sampleRate)) } },
+            { text: LISTEN_PROMPT },
+          ]
+        }],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: LISTEN_RESPONSE_SCHEMA,
+        },
+      });
+
+      const interpretation = parseCatInterpretation(result.text);
+      if (!interpretation) console.error("Unexpected interpretation response", result.text);
+      return interpretation;
+    },
+
+    async connectLive({ voice, resumeHandle, persona }, callbacks) {
+      const session = await ai.live.connect({
+        model: LIVE_MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+          },
+          systemInstruction: buildSystemInstruction(persona),
+          // Both sides as text, for the saved conversation
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          // Always on, so the server hands out handles we can resume from after a drop
+          sessionResumption: { handle: resumeHandle },
+        },
+        callbacks: {
+          onopen: callbacks.onopen,
+          onmessage: (msg) => {
+            const { serverContent } = msg;
+            const audio = serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (audio) callbacks.onmessage({ audio });
+            const inputTranscript = serverContent?.inputTranscription?.text;
+            if (inputTranscript) callbacks.onmessage({ inputTranscript });
+            const outputTranscript = serverContent?.outputTranscription?.text;
+            if (outputTranscript) callbacks.onmessage({ outputTranscript });
+            if (serverContent?.interrupted) callbacks.onmessage({ interrupted: true });
+            if (serverContent?.turnComplete) callbacks.onmessage({ turnComplete: true });
+
+            const update = msg.sessionResumptionUpdate;
+            if (update?.resumable && update.newHandle) callbacks.onmessage({ resumeHandle: update.newHandle });
+            if (msg.goAway) callbacks.onmessage({ goAway: true });
+          },
+          onclose: () => callbacks.onclose(),
+          onerror: (err) => callbacks.onerror(err),
+        }
+      });
+
+      return {
+        sendAudio(base64Pcm16) {
+          session.sendRealtimeInput({
+            media: {
+              mimeType: "audio/pcm;rate=16000",
+              data: base64Pcm16
+            }
+          });
+        },
+        endAudioStream() {
+          session.sendRealtimeInput({ audioStreamEnd: true });
+        },
+        close() {
+          session.close();
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,17 @@
+import { createLocalBackend } from './local';
+import { createProxyBackend } from './proxy';
+import { TranslatorBackend } from './types';
+
+export * from './types';
+export * from './liveConnection';
+export * from './persona';
+export * from './cache';
+export { PROMPT_VERSION } from './prompts';
+
+// TRANSLATOR_BACKEND=local runs fully offline; otherwise everything goes through our /api server
+export const createTranslatorBackend = (): TranslatorBackend => {
+  if (process.env.TRANSLATOR_BACKEND === 'local') {
+    return createLocalBackend();
+  }
+  return createProxyBackend();
+};
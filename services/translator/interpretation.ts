@@ -0,0 +1,29 @@
+import { MOODS, VOCALIZATIONS } from '../../constants';
+import { CatInterpretation, CatVocalization } from '../../types';
+
+// Checks on cat interpretations. Runs on the model's JSON and on whatever the server hands
+// back, so nothing downstream sees a vocalization or mood we don't know.
+
+export function validateInterpretation(data: unknown): CatInterpretation | null {
+  if (!data || typeof data !== 'object') return null;
+  const record = data as Record<string, unknown>;
+  const { vocalization, interpretation, mood } = record;
+  if (typeof vocalization !== 'string' || !Object.hasOwn(VOCALIZATIONS, vocalization) || typeof interpretation !== 'string') return null;
+  const confidence = Number(record.confidence);
+  return {
+    vocalization: vocalization as CatVocalization,
+    interpretation: interpretation.trim(),
+    confidence: Number.isFinite(confidence) ? Math.max(0, Math.min(1, confidence)) : 0,
+    mood: typeof mood === 'string' && Object.hasOwn(MOODS, mood) ? mood : 'NEUTRAL',
+  };
+}
+
+// Validate the model's JSON before we trust it
+export function parseCatInterpretation(raw: string | undefined): CatInterpretation | null {
+  if (!raw) return null;
+  try {
+    return validateInterpretation(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,218 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createLiveConnection, LiveConnectionOptions, LiveConnectionState } from './liveConnection';
+import { LiveCallbacks, LiveRelayClientEvent, LiveSessionOptions } from './types';
+
+// One call of the fake connect: what it was asked for and what reached its session
+type Attempt = {
+  options: LiveSessionOptions;
+  callbacks: LiveCallbacks;
+  sent: LiveRelayClientEvent[];
+  closed: boolean;
+};
+
+// Lets the connect promise's callbacks run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// `failures` is how many connects reject, starting with the first
+const setup = (overrides: Partial<LiveConnectionOptions> = {}, failures = 0) => {
+  const attempts: Attempt[] = [];
+  const timers: { callback: () => void, ms: number }[] = [];
+  const delays: number[] = [];
+  const states: LiveConnectionState[] = [];
+  const onMessage = vi.fn();
+  const onClose = vi.fn();
+
+  const connection = createLiveConnection({
+    connect: async (options, callbacks) => {
+      const attempt: Attempt = { options, callbacks, sent: [], closed: false };
+      attempts.push(attempt);
+      if (failures > 0) {
+        failures--;
+        throw new Error("Connect failed");
+      }
+      return {
+        sendAudio: (audio) => attempt.sent.push({ audio }),
+        endAudioStream: () => attempt.sent.push({ audioStreamEnd: true }),
+        close: () => { attempt.closed = true; },
+      };
+    },
+    session: { voice: 'Puck' },
+    onMessage,
+    onStateChange: (state) => states.push(state),
+    onClose,
+    setTimer: (callback, ms) => {
+      const timer = { callback, ms };
+      timers.push(timer);
+      delays.push(ms);
+      return timer;
+    },
+    clearTimer: (timer) => {
+      timers.splice(timers.indexOf(timer as typeof timers[number]), 1);
+    },
+    ...overrides,
+  });
+
+  return {
+    connection,
+    attempts,
+    delays,
+    states,
+    onMessage,
+    onClose,
+    latest: () => attempts[attempts.length - 1],
+    failNext: (count: number) => { failures = count; },
+    // Fire the pending retry timer
+    async retry() {
+      const timer = timers.shift();
+      if (!timer) throw new Error("No retry scheduled");
+      timer.callback();
+      await settle();
+    },
+  };
+};
+
+// Both halves of opening: the connect promise resolved and the session said it's ready
+const open = async (attempt: Attempt) => {
+  await settle();
+  attempt.callbacks.onopen();
+};
+
+describe('createLiveConnection', () => {
+  it('buffers audio until the session is open, then replays it in order', async () => {
+    const live = setup();
+    live.connection.sendAudio('a');
+    live.connection.sendAudio('b');
+    live.connection.endAudioStream();
+    expect(live.connection.state).toBe('connecting');
+
+    await open(live.latest());
+    expect(live.connection.state).toBe('open');
+    live.connection.sendAudio('c');
+    expect(live.latest().sent).toEqual([{ audio: 'a' }, { audio: 'b' }, { audioStreamEnd: true }, { audio: 'c' }]);
+  });
+
+  it('keeps only the newest chunks while the link is down', async () => {
+    const live = setup({ maxBufferedChunks: 2 });
+    ['a', 'b', 'c'].forEach(chunk => live.connection.sendAudio(chunk));
+    await open(live.latest());
+    expect(live.latest().sent).toEqual([{ audio: 'b' }, { audio: 'c' }]);
+  });
+
+  it('does not retry when the first connect fails', async () => {
+    const live = setup({}, 1);
+    await settle();
+    expect(live.connection.state).toBe('closed');
+    expect(live.onClose).toHaveBeenCalledWith(expect.any(Error));
+    expect(live.attempts).toHaveLength(1);
+    expect(live.delays).toEqual([]);
+  });
+
+  it('backs off exponentially up to the cap, then gives up after maxAttempts', async () => {
+    const live = setup({ maxAttempts: 6, baseDelayMs: 500, maxDelayMs: 8000 });
+    await open(live.latest());
+
+    live.failNext(Infinity);
+    live.latest().callbacks.onclose();
+    for (let i = 0; i < 6; i++) {
+      expect(live.connection.state).toBe('reconnecting');
+      await live.retry();
+    }
+
+    expect(live.delays).toEqual([500, 1000, 2000, 4000, 8000, 8000]);
+    expect(live.attempts).toHaveLength(7);
+    expect(live.connection.state).toBe('closed');
+    expect(live.onClose).toHaveBeenCalledTimes(1);
+    expect(live.onClose).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  it('starts the backoff over once a reconnect succeeds', async () => {
+    const live = setup({ baseDelayMs: 100 });
+    await open(live.latest());
+
+    live.failNext(1);
+    live.latest().callbacks.onclose();
+    await live.retry(); // Fails
+    await live.retry(); // Connects
+    await open(live.latest());
+    expect(live.connection.state).toBe('open');
+
+    live.latest().callbacks.onerror(new Error("Blip"));
+    expect(live.delays).toEqual([100, 200, 100]);
+  });
+
+  it('resumes the session with the latest handle after a drop', async () => {
+    const live = setup();
+    await open(live.latest());
+    expect(live.latest().options.resumeHandle).toBeUndefined();
+
+    live.latest().callbacks.onmessage({ resumeHandle: 'one' });
+    live.latest().callbacks.onmessage({ outputTranscript: 'Mrrp', resumeHandle: 'two' });
+    expect(live.onMessage).toHaveBeenLastCalledWith({ outputTranscript: 'Mrrp', resumeHandle: 'two' });
+
+    live.latest().callbacks.onclose();
+    await live.retry();
+    expect(live.attempts).toHaveLength(2);
+    expect(live.latest().options).toEqual({ voice: 'Puck', resumeHandle: 'two' });
+  });
+
+  it('replays audio sent while reconnecting to the new session', async () => {
+    const live = setup();
+    await open(live.latest());
+    const first = live.latest();
+
+    first.callbacks.onclose();
+    expect(first.closed).toBe(true);
+    live.connection.sendAudio('during');
+    await live.retry();
+    await open(live.latest());
+
+    expect(first.sent).toEqual([]);
+    expect(live.latest().sent).toEqual([{ audio: 'during' }]);
+    expect(live.states).toEqual(['connecting', 'open', 'reconnecting', 'open']);
+  });
+
+  it('reconnects straight away on goAway without passing it on', async () => {
+    const live = setup();
+    await open(live.latest());
+    const first = live.latest();
+    first.callbacks.onmessage({ goAway: true, resumeHandle: 'handover' });
+    expect(live.onMessage).not.toHaveBeenCalled();
+    expect(first.closed).toBe(true);
+    expect(live.attempts).toHaveLength(2);
+    expect(live.latest().options.resumeHandle).toBe('handover');
+
+    // Audio during the handover waits for the new session
+    live.connection.sendAudio('during');
+    first.callbacks.onclose();
+    await open(live.latest());
+    expect(live.latest().sent).toEqual([{ audio: 'during' }]);
+    expect(live.delays).toEqual([]);
+    expect(live.states).not.toContain('reconnecting');
+    expect(live.connection.state).toBe('open');
+  });
+
+  it('ignores a dropped session once it has been replaced', async () => {
+    const live = setup();
+    await open(live.latest());
+    const first = live.latest();
+    first.callbacks.onclose();
+    await live.retry();
+    await open(live.latest());
+
+    first.callbacks.onmessage({ outputTranscript: 'stale' });
+    first.callbacks.onerror(new Error("stale"));
+    expect(live.onMessage).not.toHaveBeenCalled();
+    expect(live.connection.state).toBe('open');
+  });
+
+  it('closes quietly when asked to', async () => {
+    const live = setup();
+    await open(live.latest());
+    live.connection.close();
+    live.latest().callbacks.onclose();
+    expect(live.latest().closed).toBe(true);
+    expect(live.connection.state).toBe('closed');
+    expect(live.onClose).not.toHaveBeenCalled();
+    expect(live.delays).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  LiveCallbacks,
+  LiveMessage,
+  LiveRelayClientEvent,
+  LiveSession,
+  LiveSessionOptions,
+} from './types';
+
+// Keeps a live cat conversation going across network blips: reconnects with exponential
+// backoff, buffers mic audio while the link is down and resumes the model's session
+// (via the last resumption handle) so the cat remembers what was said.
+
+export type LiveConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export type LiveConnectionOptions = {
+  // Usually `translator.connectLive`; anything with the same contract works (tests, fakes)
+  connect: (options: LiveSessionOptions, callbacks: LiveCallbacks) => Promise<LiveSession>;
+  session: LiveSessionOptions;
+  onMessage: (message: LiveMessage) => void;
+  onStateChange: (state: LiveConnectionState, attempt: number) => void;
+  // Connection ended for good: the first connect failed or every retry did. Not called for close().
+  onClose: (error?: unknown) => void;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxBufferedChunks?: number; // Oldest mic audio is dropped past this
+  setTimer?: (callback: () => void, ms: number) => unknown;
+  clearTimer?: (timer: unknown) => void;
+};
+
+export interface LiveConnection {
+  readonly state: LiveConnectionState;
+  sendAudio(base64Pcm16: string): void;
+  endAudioStream(): void;
+  close(): void;
+}
+
+export const createLiveConnection = ({
+  connect,
+  session: sessionOptions,
+  onMessage,
+  onStateChange,
+  onClose,
+  maxAttempts = 6,
+  baseDelayMs = 500,
+  maxDelayMs = 8000,
+  maxBufferedChunks = 80, // ~10s of 128ms chunks
+  setTimer = (callback, ms) => setTimeout(callback, ms),
+  clearTimer = (timer) => clearTimeout(timer as ReturnType<typeof setTimeout>),
+}: LiveConnectionOptions): LiveConnection => {
+  let state: LiveConnectionState = 'connecting';
+  let session: LiveSession | null = null;
+  let generation = 0; // Bumped per attempt so a dead session's late callbacks are ignored
+  let attempt = 0;
+  let everOpened = false;
+  let resumeHandle: string | undefined;
+  let retryTimer: unknown = null;
+  const buffer: LiveRelayClientEvent[] = [];
+
+  const setState = (next: LiveConnectionState) => {
+    state = next;
+    onStateChange(next, attempt);
+  };
+
+  const forward = (target: LiveSession, event: LiveRelayClientEvent) => {
+    if ('audio' in event) target.sendAudio(event.audio);
+    else target.endAudioStream();
+  };
+
+  const enqueue = (event: LiveRelayClientEvent) => {
+    if (state === 'open' && session) {
+      forward(session, event);
+      return;
+    }
+    if (state === 'closed') return;
+    buffer.push(event);
+    if (buffer.length > maxBufferedChunks) buffer.shift();
+  };
+
+  const finish = (notify: boolean, error?: unknown) => {
+    if (state === 'closed') return;
+    if (retryTimer !== null) clearTimer(retryTimer);
+    retryTimer = null;
+    generation++;
+    session?.close();
+    session = null;
+    buffer.length = 0;
+    setState('closed');
+    if (notify) onClose(error);
+  };
+
+  const drop = (id: number, error?: unknown) => {
+    if (id !== generation || state === 'closed') return;
+    generation++;
+    session?.close();
+    session = null;
+
+    if (!everOpened || attempt >= maxAttempts) {
+      finish(true, error ?? new Error("Live connection closed"));
+      return;
+    }
+
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    attempt++;
+    setState('reconnecting');
+    retryTimer = setTimer(() => {
+      retryTimer = null;
+      open();
+    }, delay);
+  };
+
+  const open = () => {
+    const id = ++generation;
+    let opened = false;
+
+    // The session object and the open event can arrive in either order
+    const markOpen = () => {
+      if (id !== generation || !opened || !session) return;
+      everOpened = true;
+      attempt = 0;
+      setState('open');
+      const pending = buffer.splice(0);
+      pending.forEach(event => forward(session!, event));
+    };
+
+    connect({ ...sessionOptions, resumeHandle }, {
+      onopen: () => {
+        opened = true;
+        markOpen();
+      },
+      onmessage: (message) => {
+        if (id !== generation) return;
+        if (message.resumeHandle) resumeHandle = message.resumeHandle;
+        // Server is about to cut us off; hand over to a new session now rather than wait for
+        // the close. It isn't a failure, so no backoff, no attempt used and no "Reconnecting".
+        if (message.goAway) {
+          session?.close();
+          session = null;
+          open();
+          return;
+        }
+        onMessage(message);
+      },
+      onclose: () => drop(id),
+      onerror: (err) => drop(id, err),
+    }).then(result => {
+      if (id !== generation) {
+        result.close();
+        return;
+      }
+      session = result;
+      markOpen();
+    }).catch(err => drop(id, err));
+  };
+
+  setState('connecting');
+  open();
+
+  return {
+    get state() {
+      return state;
+    },
+    sendAudio(base64Pcm16) {
+      enqueue({ audio: base64Pcm16 });
+    },
+    endAudioStream() {
+      enqueue({ audioStreamEnd: true });
+    },
+    close() {
+      finish(false);
+    },
+  };
+};
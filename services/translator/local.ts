@@ -0,0 +1,160 @@
+import { INPUT_SAMPLE_RATE } from '../../constants';
+import { CatInterpretation, CatVocalization } from '../../types';
+import { base64Decode, pcm16ToFloat } from '../../utils/audio';
+import { synthesizeCatAudio } from '../../utils/catSynth';
+import { LiveSession, TextTranslation, TranslatorBackend } from './types';
+
+// Fully offline provider: rule-based cat text plus synthesized meows.
+// Lets the whole UI run with no API key and no network.
+
+const TRANSLATION_RULES: { pattern: RegExp, sounds: string[], mood: string, intent: string }[] = [
+  { pattern: /\b(hungry|food|eat|dinner|breakfast|treats?)\b/i, sounds: ["Mraaaow!", "Mrrrow! Mrrrow!", "Meeeow!"], mood: 'HUNGRY', intent: "Food. Now, please." },
+  { pattern: /\b(love|cute|sweet|good (kitty|cat|boy|girl))\b/i, sounds: ["Purrr... mew.", "Prrrt. Purrrr...", "Mew. Purrr..."], mood: 'AFFECTIONATE', intent: "I love you too." },
+  { pattern: /\b(no|stop|bad|down|off)\b/i, sounds: ["Hiss!", "Grrr...", "Mrrow. Hiss!"], mood: 'ANGRY', intent: "Don't tell me what to do." },
+  { pattern: /\b(play|toy|mouse|chase)\b/i, sounds: ["Mrrp! Mrrp!", "Prrrt? Mrrp!", "Ek ek ek!"], mood: 'EXCITED', intent: "Yes! Let's play!" },
+  { pattern: /\b(hello|hi|hey|morning)\b/i, sounds: ["Mrrp!", "Meow!", "Prrrt!"], mood: 'HAPPY', intent: "Hi! You're here!" },
+  { pattern: /\b(bye|goodnight|night|sleep)\b/i, sounds: ["Mew.", "Mrrrow...", "Purrr..."], mood: 'SLEEPY', intent: "Time for a nap." },
+  { pattern: /\b(come|here)\b/i, sounds: ["Mrrp?", "Meow?"], mood: 'RELAXED', intent: "Maybe. If I feel like it." },
+];
+
+// Stable pick so the same input always gives the same cat text
+const hashString = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(hash);
+};
+
+const translateLocally = (text: string): TextTranslation => {
+  const hash = hashString(text.toLowerCase());
+  const intensity = text.trim().endsWith('!') ? 0.8 : 0.5;
+  const rule = TRANSLATION_RULES.find(r => r.pattern.test(text));
+  if (rule) {
+    const catText = rule.sounds[hash % rule.sounds.length];
+    return { catText, ttsText: catText, mood: rule.mood, intensity, intent: rule.intent, model: 'local' };
+  }
+
+  // Unknown phrase: one meow per couple of words, ending like the sentence does
+  const words = text.trim().split(/\s+/).length;
+  const meows = Array.from({ length: Math.min(4, Math.ceil(words / 2)) }, (_, i) => (i + hash) % 3 === 0 ? "Mrrp" : "Meow");
+  const ending = text.trim().endsWith('?') ? '?' : text.trim().endsWith('!') ? '!' : '.';
+  const catText = meows.join(' ') + ending;
+  return { catText, ttsText: catText, mood: 'NEUTRAL', intensity, intent: '', model: 'local' };
+};
+
+const INTERPRETATIONS: Record<CatVocalization, { text: string, mood: string }> = {
+  trill: { text: "Hey, you're here! Follow me!", mood: 'HAPPY' },
+  chirp: { text: "Look at that bird! I must catch it!", mood: 'EXCITED' },
+  demand_meow: { text: "I want something and I want it now.", mood: 'HUNGRY' },
+  hiss: { text: "Back off, I mean it!", mood: 'ANGRY' },
+  yowl: { text: "Something is wrong and everyone should know.", mood: 'EXCITED' },
+  purr: { text: "Everything is perfect. Keep doing that.", mood: 'AFFECTIONATE' },
+};
+
+const FRAME_SECONDS = 0.02;
+const VOICED_RMS = 0.02;
+
+// Rough classification from loudness, duration and zero-crossing rate
+const interpretLocally = (samples: Float32Array, sampleRate: number): CatInterpretation => {
+  const frameLength = Math.max(1, Math.floor(FRAME_SECONDS * sampleRate));
+  let voicedFrames = 0;
+  let crossings = 0;
+  let voicedSamples = 0;
+
+  for (let start = 0; start + frameLength <= samples.length; start += frameLength) {
+    let energy = 0;
+    for (let i = start; i < start + frameLength; i++) energy += samples[i] * samples[i];
+    if (Math.sqrt(energy / frameLength) < VOICED_RMS) continue;
+
+    voicedFrames++;
+    voicedSamples += frameLength;
+    for (let i = start + 1; i < start + frameLength; i++) {
+      if ((samples[i - 1] < 0) !== (samples[i] < 0)) crossings++;
+    }
+  }
+
+  if (voicedFrames === 0) {
+    return { vocalization: 'purr', interpretation: "...", confidence: 0.05, mood: 'NEUTRAL' };
+  }
+
+  const voicedSeconds = voicedFrames * FRAME_SECONDS;
+  const approxPitch = (crossings / voicedSamples) * sampleRate / 2;
+
+  let vocalization: CatVocalization;
+  if (approxPitch > 3000) vocalization = 'hiss';
+  else if (approxPitch < 150) vocalization = 'purr';
+  else if (voicedSeconds > 1.5) vocalization = 'yowl';
+  else if (voicedSeconds > 0.5) vocalization = 'demand_meow';
+  else if (approxPitch > 900) vocalization = 'chirp';
+  else vocalization = 'trill';
+
+  const { text, mood } = INTERPRETATIONS[vocalization];
+  return { vocalization, interpretation: text, confidence: 0.4, mood };
+};
+
+// Live session stand-in: waits for you to speak then pause (or stop sending), then meows back
+const SILENCE_BEFORE_REPLY_SECONDS = 0.7;
+
+export const createLocalBackend = (): TranslatorBackend => ({
+  name: 'local',
+
+  async translateText(text) {
+    return translateLocally(text);
+  },
+
+  async synthesize(catText) {
+    return synthesizeCatAudio(catText);
+  },
+
+  async interpretCatAudio(pcm16, sampleRate) {
+    return interpretLocally(pcm16ToFloat(pcm16), sampleRate);
+  },
+
+  async connectLive(_options, callbacks) {
+    let closed = false;
+    let heardSpeech = false;
+    let silentSamples = 0;
+
+    setTimeout(() => !closed && callbacks.onopen(), 0);
+
+    const reply = () => {
+      const catText = ["Meow?", "Mrrp!", "Mrrrow.", "Purrr... mew."][Math.floor(Math.random() * 4)];
+      callbacks.onmessage({ audio: synthesizeCatAudio(catText) });
+      callbacks.onmessage({ outputTranscript: catText }); // No speech recognition offline, so no input side
+      callbacks.onmessage({ turnComplete: true });
+    };
+
+    const session: LiveSession = {
+      sendAudio(base64Pcm16) {
+        if (closed) return;
+        const samples = pcm16ToFloat(base64Decode(base64Pcm16));
+        let energy = 0;
+        for (let i = 0; i < samples.length; i++) energy += samples[i] * samples[i];
+        const rms = Math.sqrt(energy / Math.max(1, samples.length));
+
+        if (rms >= VOICED_RMS) {
+          heardSpeech = true;
+          silentSamples = 0;
+        } else if (heardSpeech) {
+          silentSamples += samples.length;
+          if (silentSamples / INPUT_SAMPLE_RATE >= SILENCE_BEFORE_REPLY_SECONDS) {
+            heardSpeech = false;
+            silentSamples = 0;
+            reply();
+          }
+        }
+      },
+      endAudioStream() {
+        if (closed || !heardSpeech) return;
+        heardSpeech = false;
+        silentSamples = 0;
+        reply();
+      },
+      close() {
+        if (closed) return;
+        closed = true;
+        callbacks.onclose();
+      },
+    };
+    return session;
+  },
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_EMOTION_RULES, sanitizePersona } from './persona';
+
+describe('sanitizePersona', () => {
+  it('keeps a well-formed persona', () => {
+    const persona = { name: 'Luna', traits: ['shy', 'playful'], archetype: 'kitten', emotions: [{ emotion: 'Happy', sounds: 'Mrrp!' }] };
+    expect(sanitizePersona(persona)).toEqual(persona);
+  });
+
+  it.each([null, undefined, 'Luna', 42, [], { traits: ['shy'] }, { name: '   ' }, { name: 7 }])('rejects %j', raw => {
+    expect(sanitizePersona(raw)).toBeUndefined();
+  });
+
+  it('trims and shortens the name', () => {
+    expect(sanitizePersona({ name: `  ${'L'.repeat(100)}  ` })?.name).toBe('L'.repeat(40));
+  });
+
+  it('drops unknown and inherited trait keys', () => {
+    const persona = sanitizePersona({ name: 'Tom', traits: ['grumpy', 'evil', 'constructor', 'toString', '__proto__', 3] });
+    expect(persona?.traits).toEqual(['grumpy']);
+  });
+
+  it.each(['wizard', 'constructor', 'hasOwnProperty', 5])('drops the archetype %j', archetype => {
+    expect(sanitizePersona({ name: 'Tom', archetype })).toEqual({ name: 'Tom', traits: [] });
+  });
+
+  it('drops emotion rules that are not a pair of strings', () => {
+    const persona = sanitizePersona({
+      name: 'Tom',
+      emotions: [
+        { emotion: 'Happy', sounds: 'Mrrp!' },
+        { emotion: 'Angry', sounds: 3 },
+        { emotion: ['Sad'], sounds: 'Mew' },
+        { emotion: '   ', sounds: 'Mew' },
+        null,
+        'Hungry -> Meow',
+      ],
+    });
+    expect(persona?.emotions).toEqual([{ emotion: 'Happy', sounds: 'Mrrp!' }]);
+  });
+
+  it('shortens overlong rules and keeps at most MAX_EMOTION_RULES', () => {
+    const rule = { emotion: `  ${'E'.repeat(200)}`, sounds: 'S'.repeat(200) };
+    const persona = sanitizePersona({ name: 'Tom', emotions: Array(MAX_EMOTION_RULES + 5).fill(rule) });
+    expect(persona?.emotions).toHaveLength(MAX_EMOTION_RULES);
+    expect(persona?.emotions?.[0]).toEqual({ emotion: 'E'.repeat(80), sounds: 'S'.repeat(80) });
+  });
+
+  it('leaves emotions out when none are usable, so the defaults apply', () => {
+    expect(sanitizePersona({ name: 'Tom', emotions: [{ emotion: 1, sounds: 2 }] })).not.toHaveProperty('emotions');
+    expect(sanitizePersona({ name: 'Tom', emotions: 'Happy' })).not.toHaveProperty('emotions');
+  });
+});
@@ -0,0 +1,48 @@
+import { CAT_ARCHETYPES, CAT_TRAITS } from '../../constants';
+import { CatArchetype, CatTrait, EmotionRule } from '../../types';
+
+// The part of a cat profile the model gets to see
+export type CatPersona = {
+  name: string;
+  traits: CatTrait[];
+  archetype?: CatArchetype;
+  emotions?: EmotionRule[]; // The prompts fall back to DEFAULT_EMOTION_RULES
+};
+
+const MAX_NAME_LENGTH = 40;
+export const MAX_EMOTION_RULES = 12;
+const MAX_RULE_LENGTH = 80;
+
+const sanitizeEmotions = (raw: unknown): EmotionRule[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const rules = raw
+    .filter((r): r is EmotionRule => typeof r?.emotion === 'string' && typeof r?.sounds === 'string')
+    .map(r => ({ emotion: r.emotion.trim().slice(0, MAX_RULE_LENGTH), sounds: r.sounds.trim().slice(0, MAX_RULE_LENGTH) }))
+    .filter(r => r.emotion && r.sounds)
+    .slice(0, MAX_EMOTION_RULES);
+  return rules.length > 0 ? rules : undefined;
+};
+
+// Untrusted input (request bodies, query strings) to a persona, or undefined if unusable
+export function sanitizePersona(raw: unknown): CatPersona | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const { name, traits, archetype, emotions } = raw as { name?: unknown, traits?: unknown, archetype?: unknown, emotions?: unknown };
+  if (typeof name !== 'string' || !name.trim()) return undefined;
+  const rules = sanitizeEmotions(emotions);
+  return {
+    name: name.trim().slice(0, MAX_NAME_LENGTH),
+    traits: Array.isArray(traits) ? traits.filter((t): t is CatTrait => typeof t === 'string' && Object.hasOwn(CAT_TRAITS, t)) : [],
+    ...(typeof archetype === 'string' && Object.hasOwn(CAT_ARCHETYPES, archetype) ? { archetype: archetype as CatArchetype } : {}),
+    ...(rules ? { emotions: rules } : {}),
+  };
+}
+
+// A sentence or two for prompts, e.g. `Your name is "Luna". You are a tiny kitten: ... You are grumpy and ...`
+export function describePersona(persona: CatPersona): string {
+  const traits = persona.traits.map(t => CAT_TRAITS[t].prompt);
+  const name = JSON.stringify(persona.name); // Quoted so a name can't smuggle in instructions
+  const sentences = [`Your name is ${name}.`];
+  if (persona.archetype) sentences.push(`You are ${CAT_ARCHETYPES[persona.archetype].prompt}.`);
+  if (traits.length > 0) sentences.push(`You are ${traits.join('; ')}.`);
+  return sentences.join(' ');
+}
@@ -0,0 +1,178 @@
+import { AddressInfo } from 'net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket as NodeWebSocket, WebSocketServer } from 'ws';
+import { createCatServer } from '../../server/app';
+import { createLiveConnection } from './liveConnection';
+import { createLocalBackend } from './local';
+import { createProxyBackend } from './proxy';
+import { LiveCallbacks, LiveRelayClientEvent, LiveSessionOptions } from './types';
+
+// One upstream session the relay opened: what it was asked for and what reached it
+type Upstream = {
+  options: LiveSessionOptions;
+  callbacks: LiveCallbacks;
+  sent: LiveRelayClientEvent[];
+  closed: boolean;
+};
+
+const cleanups: (() => Promise<void>)[] = [];
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await Promise.all(cleanups.splice(0).map(cleanup => cleanup()));
+});
+
+const listen = async (server: { listen(port: number, host: string, cb: () => void): unknown, address(): unknown }) => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+// The real relay from server/, with a scripted upstream in place of Gemini
+const startRelay = async () => {
+  const upstreams: Upstream[] = [];
+  const server = createCatServer({
+    backend: {
+      ...createLocalBackend(),
+      async connectLive(options, callbacks) {
+        const upstream: Upstream = { options, callbacks, sent: [], closed: false };
+        upstreams.push(upstream);
+        return {
+          sendAudio: (audio) => upstream.sent.push({ audio }),
+          endAudioStream: () => upstream.sent.push({ audioStreamEnd: true }),
+          close: () => { upstream.closed = true; },
+        };
+      },
+    },
+    rateLimiter: { take: () => true },
+  });
+  const url = await listen(server);
+  cleanups.push(() => new Promise(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  }));
+  return { url, upstreams, latest: () => upstreams[upstreams.length - 1] };
+};
+
+const proxyFor = (url: string, openTimeoutMs?: number) =>
+  createProxyBackend(url, { WebSocket: NodeWebSocket as unknown as typeof WebSocket, openTimeoutMs });
+
+const callbacks = () => ({ onopen: vi.fn(), onmessage: vi.fn(), onclose: vi.fn(), onerror: vi.fn() });
+
+const waitFor = async (condition: () => unknown) => {
+  for (let i = 0; i < 200 && !condition(); i++) await new Promise(resolve => setTimeout(resolve, 10));
+  expect(condition()).toBeTruthy();
+};
+
+const errorMessages = (onerror: ReturnType<typeof vi.fn>) => onerror.mock.calls.map(([error]) => (error as Error).message);
+
+describe('createProxyBackend connectLive', () => {
+  it('relays the session both ways over the WebSocket', async () => {
+    const relay = await startRelay();
+    const client = callbacks();
+    const session = await proxyFor(relay.url).connectLive({ voice: 'Puck', resumeHandle: 'earlier' }, client);
+
+    await waitFor(() => relay.latest());
+    expect(relay.latest().options).toMatchObject({ voice: 'Puck', resumeHandle: 'earlier' });
+    relay.latest().callbacks.onopen();
+    await waitFor(() => client.onopen.mock.calls.length);
+
+    relay.latest().callbacks.onmessage({ outputTranscript: 'Mrrp', resumeHandle: 'next' });
+    await waitFor(() => client.onmessage.mock.calls.length);
+    expect(client.onmessage).toHaveBeenCalledWith({ outputTranscript: 'Mrrp', resumeHandle: 'next' });
+
+    session.sendAudio('AAAA');
+    session.endAudioStream();
+    await waitFor(() => relay.latest().sent.length === 2);
+    expect(relay.latest().sent).toEqual([{ audio: 'AAAA' }, { audioStreamEnd: true }]);
+
+    session.close();
+    await waitFor(() => relay.latest().closed && client.onclose.mock.calls.length);
+    expect(client.onerror).not.toHaveBeenCalled();
+  });
+
+  it('reports an upstream failure, then the close', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {}); // The relay logs the upstream error
+    const relay = await startRelay();
+    const client = callbacks();
+    await proxyFor(relay.url).connectLive({ voice: 'Puck' }, client);
+    await waitFor(() => relay.latest());
+    relay.latest().callbacks.onopen();
+    relay.latest().callbacks.onerror(new Error("Upstream fell over"));
+
+    await waitFor(() => client.onclose.mock.calls.length);
+    expect(errorMessages(client.onerror)).toEqual(['Live session failed']);
+  });
+
+  it('passes on the relay refusing the session', async () => {
+    const relay = await startRelay();
+    const client = callbacks();
+    await proxyFor(relay.url).connectLive({ voice: 'Nobody' }, client);
+
+    await waitFor(() => client.onclose.mock.calls.length);
+    expect(errorMessages(client.onerror)).toEqual(['Unknown voice']);
+    expect(relay.upstreams).toEqual([]);
+  });
+
+  it('fails the attempt when the relay never starts the session', async () => {
+    const relay = await startRelay();
+    const client = callbacks();
+    await proxyFor(relay.url, 50).connectLive({ voice: 'Puck' }, client);
+
+    await waitFor(() => client.onclose.mock.calls.length);
+    expect(errorMessages(client.onerror)).toEqual(['Live relay never started the session']);
+    expect(client.onopen).not.toHaveBeenCalled();
+    await waitFor(() => relay.latest()?.closed);
+  });
+
+  it('rejects when the relay cannot be reached', async () => {
+    const relay = await startRelay();
+    await cleanups.pop()!(); // Nothing listens on the port any more
+    const client = callbacks();
+    await expect(proxyFor(relay.url).connectLive({ voice: 'Puck' }, client)).rejects.toThrow("Live relay connection failed");
+  });
+
+  it('treats frames that are not relay events as errors', async () => {
+    const wss = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise(resolve => wss.once('listening', resolve));
+    cleanups.push(() => new Promise(resolve => {
+      wss.clients.forEach(socket => socket.terminate());
+      wss.close(() => resolve());
+    }));
+    wss.on('connection', socket => ['not json', 'null', '{"event":"open"}'].forEach(frame => socket.send(frame)));
+
+    const client = callbacks();
+    await proxyFor(`http://127.0.0.1:${(wss.address() as AddressInfo).port}`).connectLive({ voice: 'Puck' }, client);
+    await waitFor(() => client.onopen.mock.calls.length);
+    expect(errorMessages(client.onerror)).toEqual(['Live relay sent a malformed message', 'Live relay sent a malformed message']);
+  });
+
+  it('reconnects through the relay and resumes with the last handle', async () => {
+    const relay = await startRelay();
+    const states: string[] = [];
+    const connection = createLiveConnection({
+      connect: proxyFor(relay.url).connectLive,
+      session: { voice: 'Puck' },
+      onMessage: vi.fn(),
+      onStateChange: state => states.push(state),
+      onClose: vi.fn(),
+      baseDelayMs: 10,
+    });
+    cleanups.push(async () => connection.close());
+
+    await waitFor(() => relay.latest());
+    relay.latest().callbacks.onopen();
+    relay.latest().callbacks.onmessage({ resumeHandle: 'before-the-drop' });
+    await waitFor(() => connection.state === 'open');
+
+    // The upstream drops; mic audio keeps coming while the link is down
+    relay.latest().callbacks.onclose();
+    await waitFor(() => connection.state === 'reconnecting');
+    connection.sendAudio('during');
+
+    await waitFor(() => relay.upstreams.length === 2);
+    expect(relay.latest().options).toMatchObject({ voice: 'Puck', resumeHandle: 'before-the-drop' });
+    relay.latest().callbacks.onopen();
+    await waitFor(() => relay.latest().sent.length);
+    expect(relay.latest().sent).toEqual([{ audio: 'during' }]);
+    expect(states).toEqual(['connecting', 'open', 'reconnecting', 'open']);
+  });
+});
@@ -0,0 +1,125 @@
+import { base64Encode } from '../../utils/audio';
+import { validateInterpretation } from './interpretation';
+import { validateTranslation } from './translation';
+import { LiveRelayClientEvent, LiveRelayServerEvent, LiveSession, TranslatorBackend } from './types';
+
+// Talks to our own server (see server/) which holds the Gemini key
+
+export type ProxyBackendOptions = {
+  WebSocket?: typeof WebSocket; // Swappable so the live relay can run against a fake server
+  openTimeoutMs?: number; // How long the relay gets to start the upstream session once the socket is up
+};
+
+const OPEN_TIMEOUT_MS = 10000;
+
+export const createProxyBackend = (
+  baseUrl = '',
+  { WebSocket: WebSocketImpl = globalThis.WebSocket, openTimeoutMs = OPEN_TIMEOUT_MS }: ProxyBackendOptions = {},
+): TranslatorBackend => {
+  const post = async <T>(path: string, body: unknown): Promise<T> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Request to ${path} failed (${response.status})`);
+    }
+    return data as T;
+  };
+
+  return {
+    name: 'proxy',
+
+    async translateText(text, persona) {
+      // Don't take the server's word for the shape either
+      return validateTranslation(await post<unknown>('/api/translate', { text, persona }), 'unknown');
+    },
+
+    async synthesize(catText, voice) {
+      const { audio } = await post<{ audio: string | null }>('/api/tts', { catText, voice });
+      return audio;
+    },
+
+    async interpretCatAudio(pcm16, sampleRate) {
+      const { interpretation } = await post<{ interpretation?: unknown }>('/api/interpret', {
+        audio: base64Encode(pcm16),
+        sampleRate,
+      });
+      return validateInterpretation(interpretation);
+    },
+
+    connectLive({ voice, resumeHandle, persona }, callbacks) {
+      const url = new URL(`${baseUrl}/api/live`, typeof window !== 'undefined' ? window.location.href : undefined);
+      url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+      url.searchParams.set('voice', voice);
+      if (resumeHandle) url.searchParams.set('resume', resumeHandle);
+      if (persona) url.searchParams.set('persona', JSON.stringify(persona));
+
+      return new Promise<LiveSession>((resolve, reject) => {
+        const socket = new WebSocketImpl(url);
+        let opened = false;
+        let openTimer: ReturnType<typeof setTimeout> | undefined;
+        const stopOpenTimer = () => clearTimeout(openTimer);
+
+        const send = (event: LiveRelayClientEvent) => {
+          if (socket.readyState === WebSocketImpl.OPEN) socket.send(JSON.stringify(event));
+        };
+
+        socket.onopen = () => {
+          opened = true;
+          // The socket being up only means the relay answered; the upstream session may still hang
+          openTimer = setTimeout(() => {
+            callbacks.onerror(new Error("Live relay never started the session"));
+            socket.close();
+          }, openTimeoutMs);
+          resolve({
+            sendAudio(base64Pcm16) {
+              send({ audio: base64Pcm16 });
+            },
+            endAudioStream() {
+              send({ audioStreamEnd: true });
+            },
+            close() {
+              socket.close();
+            },
+          });
+        };
+
+        socket.onmessage = (e) => {
+          let event: LiveRelayServerEvent | null = null;
+          try {
+            event = JSON.parse(e.data);
+          } catch {
+            // Reported below
+          }
+          if (!event || typeof event !== 'object') {
+            callbacks.onerror(new Error("Live relay sent a malformed message"));
+            return;
+          }
+          if (event.event === 'open') {
+            stopOpenTimer();
+            callbacks.onopen();
+          } else if (event.event === 'message') {
+            callbacks.onmessage(event.message);
+          } else if (event.event === 'error') {
+            callbacks.onerror(new Error(event.error));
+          }
+        };
+
+        socket.onerror = () => {
+          stopOpenTimer();
+          const error = new Error("Live relay connection failed");
+          if (!opened) reject(error);
+          callbacks.onerror(error);
+        };
+
+        socket.onclose = () => {
+          stopOpenTimer();
+          callbacks.onclose();
+        };
+      });
+    },
+  };
+};
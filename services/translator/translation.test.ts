@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { FALLBACK_CAT_TEXT, parseCatTranslation, ttsSafe, validateTranslation } from './translation';
+
+const FALLBACK = {
+  catText: FALLBACK_CAT_TEXT,
+  ttsText: FALLBACK_CAT_TEXT,
+  mood: 'NEUTRAL',
+  intensity: 0.5,
+  intent: '',
+  model: 'test-model',
+};
+
+describe('parseCatTranslation', () => {
+  const cases: [string, string | undefined, object][] = [
+    ['a full reply', '{"catText":"Mrrp!","ttsText":"Mrrp","mood":"HAPPY","intensity":0.7,"intent":"Hi"}',
+      { catText: 'Mrrp!', ttsText: 'Mrrp', mood: 'HAPPY', intensity: 0.7, intent: 'Hi', model: 'test-model' }],
+    ['no reply', undefined, FALLBACK],
+    ['a blank reply', '  \n ', FALLBACK],
+    ['plain text instead of JSON', 'Meow meow!', { ...FALLBACK, catText: 'Meow meow!', ttsText: 'Meow meow!' }],
+    ['truncated JSON', '{"catText": "Mrr', { ...FALLBACK, catText: '{"catText": "Mrr', ttsText: 'catText Mrr' }],
+    ['a bare JSON string', '"Prrrt?"', { ...FALLBACK, catText: 'Prrrt?', ttsText: 'Prrrt?' }],
+    ['a number', '42', FALLBACK],
+    ['null', 'null', FALLBACK],
+    ['an array', '["Meow"]', FALLBACK],
+    ['an object without catText', '{"mood":"ANGRY"}', { ...FALLBACK, mood: 'ANGRY' }],
+    ['a model name in the reply', '{"catText":"Mew","model":"other"}', { ...FALLBACK, catText: 'Mew', ttsText: 'Mew', model: 'other' }],
+  ];
+
+  it.each(cases)('handles %s', (_, raw, expected) => {
+    expect(parseCatTranslation(raw, 'test-model')).toEqual(expected);
+  });
+});
+
+describe('validateTranslation', () => {
+  it.each([
+    ['an unknown mood', 'GRUMPY'],
+    ['an inherited key', 'constructor'],
+    ['a lowercase mood', 'happy'],
+    ['a non-string mood', 3],
+  ])('falls back to NEUTRAL for %s', (_, mood) => {
+    expect(validateTranslation({ catText: 'Mew', mood }, 'm').mood).toBe('NEUTRAL');
+  });
+
+  it.each([
+    [1.5, 1],
+    [-2, 0],
+    ['0.25', 0.25],
+    [NaN, 0.5],
+    [Infinity, 0.5],
+    ['loud', 0.5],
+    [undefined, 0.5],
+  ])('reads intensity %s as %s', (intensity, expected) => {
+    expect(validateTranslation({ catText: 'Mew', intensity }, 'm').intensity).toBe(expected);
+  });
+
+  it('trims and shortens overlong text', () => {
+    const result = validateTranslation({ catText: `  ${'Meow '.repeat(100)}`, intent: 'x'.repeat(500) }, 'm');
+    expect(result.catText).toHaveLength(200);
+    expect(result.catText.startsWith('Meow')).toBe(true);
+    expect(result.intent).toHaveLength(200);
+  });
+
+  it('drops fields of the wrong type on their own', () => {
+    expect(validateTranslation({ catText: 42, ttsText: ['Mew'], intent: {}, mood: 'HUNGRY' }, 'm')).toEqual({
+      ...FALLBACK,
+      mood: 'HUNGRY',
+      model: 'm',
+    });
+  });
+
+  it('speaks the cat text when ttsText is missing or only emoji', () => {
+    expect(validateTranslation({ catText: 'Mrrp! 😺' }, 'm').ttsText).toBe('Mrrp!');
+    expect(validateTranslation({ catText: 'Mrrp!', ttsText: '😺🐾' }, 'm').ttsText).toBe('Meow');
+  });
+});
+
+describe('ttsSafe', () => {
+  it.each([
+    ['Mrrp!', 'Mrrp!'],
+    ['Purr... mew?', 'Purr... mew?'],
+    ['😺 Meow 😸', 'Meow'],
+    ['~*Mrrrow*~', 'Mrrrow'],
+    ['😺🐾💤', 'Meow'],
+    ['', 'Meow'],
+  ])('turns %j into %j', (input, expected) => {
+    expect(ttsSafe(input)).toBe(expected);
+  });
+});
@@ -0,0 +1,45 @@
+import { MOODS } from '../../constants';
+import { TextTranslation } from './types';
+
+// Client-side checks on structured translations. Runs on whatever the model or the server
+// hands back, so a malformed response degrades to a plain "Meow?" instead of an error.
+
+const MAX_TEXT_LENGTH = 200;
+const DEFAULT_INTENSITY = 0.5;
+export const FALLBACK_CAT_TEXT = "Meow?";
+
+const text = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_TEXT_LENGTH) : undefined;
+
+// Emoji and symbols make TTS go silent; keep words and plain punctuation
+export const ttsSafe = (catText: string) =>
+  catText.replace(/[\u{1F600}-\u{1F6FF}]/gu, '').replace(/[^\w\s.,!?]/g, '').trim() || "Meow";
+
+// Each field falls back on its own, so one bad value doesn't throw the rest away.
+// `model` is used when the data doesn't name one.
+export function validateTranslation(data: unknown, model: string): TextTranslation {
+  const record = data && typeof data === 'object' ? data as Record<string, unknown> : {};
+  const catText = text(record.catText) ?? FALLBACK_CAT_TEXT;
+  const intensity = Number(record.intensity);
+  return {
+    catText,
+    ttsText: ttsSafe(text(record.ttsText) ?? catText),
+    mood: typeof record.mood === 'string' && Object.hasOwn(MOODS, record.mood) ? record.mood : 'NEUTRAL',
+    intensity: Number.isFinite(intensity) ? Math.max(0, Math.min(1, intensity)) : DEFAULT_INTENSITY,
+    intent: text(record.intent) ?? '',
+    model: text(record.model) ?? model,
+  };
+}
+
+// The model's raw response. Anything that isn't JSON (the model ignoring the schema) is
+// taken as the cat text itself, and so is a bare JSON string.
+export function parseCatTranslation(raw: string | undefined, model: string): TextTranslation {
+  const trimmed = raw?.trim();
+  if (!trimmed) return validateTranslation(null, model);
+  try {
+    const data = JSON.parse(trimmed);
+    return validateTranslation(typeof data === 'string' ? { catText: data } : data, model);
+  } catch {
+    return validateTranslation({ catText: trimmed }, model);
+  }
+}
@@ -0,0 +1,65 @@
+import { CatInterpretation } from '../../types';
+import { CatPersona } from './persona';
+
+// Normalized message from a live cat session
+export type LiveMessage = {
+  audio?: string; // Base64 PCM16 at OUTPUT_SAMPLE_RATE
+  inputTranscript?: string; // Next piece of what the user said, to append
+  outputTranscript?: string; // Next piece of what the cat said
+  turnComplete?: boolean;
+  interrupted?: boolean; // User barged in; drop any model audio still queued
+  resumeHandle?: string; // Latest handle to resume this conversation after a reconnect
+  goAway?: boolean; // Server will close the connection shortly
+};
+
+export type LiveCallbacks = {
+  onopen: () => void;
+  onmessage: (message: LiveMessage) => void;
+  onclose: () => void;
+  onerror: (error: unknown) => void;
+};
+
+export type LiveSessionOptions = {
+  voice: string;
+  resumeHandle?: string; // Continue a previous session instead of starting fresh
+  persona?: CatPersona; // Which cat is talking
+};
+
+export interface LiveSession {
+  // Base64 PCM16 at INPUT_SAMPLE_RATE
+  sendAudio(base64Pcm16: string): void;
+  // The mic stopped sending (VAD silence or push-to-talk released); flushes the model's input
+  endAudioStream(): void;
+  close(): void;
+}
+
+// Cat text for a piece of human text, see validateTranslation
+export type TextTranslation = {
+  catText: string; // Shown to the user, may have emoji
+  ttsText: string; // The same sounds, safe to hand to speech synthesis
+  mood: string; // Key into MOODS
+  intensity: number; // 0 calm .. 1 as strong as it gets
+  intent: string; // What the cat means, in plain words; may be empty
+  model: string; // What wrote it, recorded on saved items
+};
+
+// Everything the app needs from a translation provider
+export interface TranslatorBackend {
+  readonly name: string;
+  // Human text -> short string of cat sounds
+  translateText(text: string, persona?: CatPersona): Promise<TextTranslation>;
+  // Cat text -> base64 PCM16 at OUTPUT_SAMPLE_RATE, or null when no audio was produced
+  synthesize(catText: string, voice: string): Promise<string | null>;
+  // Recorded cat clip -> what the cat is saying
+  interpretCatAudio(pcm16: ArrayBuffer, sampleRate: number): Promise<CatInterpretation | null>;
+  // Two-way audio conversation with the cat
+  connectLive(options: LiveSessionOptions, callbacks: LiveCallbacks): Promise<LiveSession>;
+}
+
+// Wire format of the /api/live WebSocket relay
+export type LiveRelayClientEvent = { audio: string } | { audioStreamEnd: true };
+
+export type LiveRelayServerEvent =
+  | { event: 'open' }
+  | { event: 'message', message: LiveMessage }
+  | { event: 'error', error: string };
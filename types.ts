@@ -0,0 +1,141 @@
+// Mood Configuration
+export type Mood = {
+  label: string;
+  emoji: string;
+  color: string;
+};
+
+// Cat Vocalizations (reverse translation)
+export type CatVocalization = 'trill' | 'chirp' | 'demand_meow' | 'hiss' | 'yowl' | 'purr';
+
+export type CatInterpretation = {
+  vocalization: CatVocalization;
+  interpretation: string;
+  confidence: number; // 0..1
+  mood: string; // Key into MOODS
+};
+
+// Household cats, each with its own voice, personality and history
+export type CatTrait = 'grumpy' | 'chatty' | 'shy' | 'playful' | 'lazy' | 'affectionate' | 'dramatic';
+
+// Overall character the prompts play, on top of the traits
+export type CatArchetype = 'kitten' | 'senior' | 'diva' | 'feral';
+
+// How the cat sounds when it feels something, one line of the prompt's emotional mapping
+export type EmotionRule = {
+  emotion: string; // e.g. "Hungry/Demanding"
+  sounds: string; // e.g. long, drawn out Mraaaow!
+};
+
+export type FurPreset = 'black' | 'orange_tabby' | 'calico' | 'tuxedo' | 'siamese' | 'white';
+export type FurPattern = 'solid' | 'stripes' | 'patches';
+export type EyeColor = 'yellow' | 'green' | 'blue' | 'copper' | 'odd';
+export type EarShape = 'pointed' | 'rounded' | 'folded';
+
+// How the avatar draws a cat
+export type CatAppearance = {
+  fur: FurPreset;
+  pattern: FurPattern;
+  eyes: EyeColor;
+  ears: EarShape;
+};
+
+export type CatProfile = {
+  id: string;
+  name: string;
+  color: string; // Accent used for the profile chip
+  voice: string; // Default voice, a VOICES name
+  traits: CatTrait[];
+  archetype?: CatArchetype;
+  emotions?: EmotionRule[]; // Missing means DEFAULT_EMOTION_RULES
+  appearance?: CatAppearance; // Missing on older profiles, see DEFAULT_APPEARANCE
+  createdAt: number;
+};
+
+// Moving parts of the avatar for one animation frame
+export type AvatarPose = {
+  mouthOpen: number; // 0 closed .. 1 wide open
+  earTilt: number; // Degrees; > 0 perks the ears outward, < 0 flattens them
+  whiskerTwitch: number; // -1 .. 1
+  blink: number; // 0 open .. 1 shut
+  tailAngle: number; // Degrees from rest
+};
+
+// Fields every saved item has. Audio lives in its own store, see AudioClip.
+type SavedItem = {
+  id: string;
+  createdAt: number; // ms since epoch
+  profileId?: string; // Cat profile this belongs to
+  audioId: string; // Key of the AudioClip
+  hiddenFromRecent?: boolean; // Cleared from Recent but kept alive by a favorite
+  voice?: string; // Voice it was spoken in; recordings of the cat have none
+  tags?: string[]; // User tags, lower case
+  searchTokens?: string[]; // Words for the search index, maintained by the history repository
+  schemaVersion?: number; // ITEM_SCHEMA_VERSION it was written with; missing before version 2
+  model?: string; // What produced the text, when known
+  durationMs?: number; // Length of the audio clip
+};
+
+// Human -> Cat translation. Older records have no `kind`.
+export type TranslationItem = SavedItem & {
+  kind?: 'translation';
+  originalText: string;
+  catText: string;
+  mood?: string; // Key into MOODS: the model's, or from analysing the audio
+  intent?: string; // What the model says the cat means
+};
+
+// Cat -> Human interpretation of a recorded clip
+export type CatListenItem = CatInterpretation & SavedItem & {
+  kind: 'listen';
+};
+
+export type HistoryItem = TranslationItem | CatListenItem;
+
+// Raw audio of an item, stored once however many lists reference it
+export type AudioClip = {
+  id: string;
+  pcm16: ArrayBuffer;
+  sampleRate: number;
+};
+
+// One exchange of a live session: the user speaks, the cat answers
+export type ConversationTurn = {
+  createdAt: number; // When the turn ended
+  userText: string; // Input transcript, empty when nothing was transcribed
+  catText: string; // Output transcript
+  audioId?: string; // The cat's reply as one AudioClip; missing if it sent no audio
+  durationMs?: number;
+  mood?: string; // Key into MOODS, from analysing the reply
+  interrupted?: boolean; // The user talked over the cat
+};
+
+// A whole live session, across reconnects
+export type Conversation = {
+  id: string;
+  createdAt: number;
+  updatedAt: number; // End of the latest turn
+  profileId?: string;
+  voice: string;
+  turns: ConversationTurn[];
+};
+
+export type PhraseCategory = 'general' | 'feeding' | 'play' | 'vet' | 'bedtime';
+
+// Pre-generated translation of a phrase, valid while `key` still equals the translationCacheKey
+// the phrase would be looked up under now (speechKey in index.tsx)
+export type PhraseAudio = {
+  key: string;
+  audioId: string;
+  catText: string;
+};
+
+export type QuickPhrase = {
+  id: string;
+  label: string; // Short button text
+  emoji: string;
+  text: string; // What gets translated
+  category: PhraseCategory;
+  order: number; // Position in the grid, ascending
+  audio?: PhraseAudio;
+};
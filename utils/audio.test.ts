@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { base64Decode, base64Encode, decodeWav, encodeWav, floatTo16BitPCM, pcm16ToFloat } from './audio';
+
+const pcm = Int16Array.from([0, 1000, -1000, 32767, -32768, 42]).buffer;
+
+// A WAV built chunk by chunk, for files other tools might write
+const riff = (...chunks: [string, Uint8Array][]) => {
+  const body = chunks.flatMap(([id, data]) => {
+    const header = new Uint8Array(8);
+    header.set([...id].map(c => c.charCodeAt(0)));
+    new DataView(header.buffer).setUint32(4, data.length, true);
+    return [header, data, new Uint8Array(data.length % 2)];
+  });
+  const bytes = new Uint8Array(12 + body.reduce((sum, part) => sum + part.length, 0));
+  bytes.set([...'RIFF'].map(c => c.charCodeAt(0)));
+  bytes.set([...'WAVE'].map(c => c.charCodeAt(0)), 8);
+  let offset = 12;
+  for (const part of body) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes.buffer;
+};
+
+const fmt = (channels: number, sampleRate: number, bits: number) => {
+  const data = new Uint8Array(16);
+  const view = new DataView(data.buffer);
+  view.setUint16(0, 1, true);
+  view.setUint16(2, channels, true);
+  view.setUint32(4, sampleRate, true);
+  view.setUint16(14, bits, true);
+  return data;
+};
+
+const patched = (wav: ArrayBuffer, offset: number, value: string) => {
+  new Uint8Array(wav).set([...value].map(c => c.charCodeAt(0)), offset);
+  return wav;
+};
+
+describe('encodeWav / decodeWav', () => {
+  it('round-trips PCM16 and the sample rate', () => {
+    const decoded = decodeWav(encodeWav(pcm, 24000));
+    expect(decoded.sampleRate).toBe(24000);
+    expect(new Int16Array(decoded.pcm16)).toEqual(new Int16Array(pcm));
+  });
+
+  it('skips chunks it does not know, including odd-sized ones', () => {
+    const wav = riff(['LIST', new Uint8Array(3)], ['fmt ', fmt(1, 16000, 16)], ['data', new Uint8Array(pcm)]);
+    expect(decodeWav(wav)).toEqual({ pcm16: pcm, sampleRate: 16000 });
+  });
+
+  it('keeps what is there when the data chunk claims more than the file has', () => {
+    const wav = encodeWav(pcm, 16000);
+    new DataView(wav).setUint32(40, 1_000_000, true);
+    expect(decodeWav(wav).pcm16.byteLength).toBe(pcm.byteLength);
+  });
+
+  it.each<[string, ArrayBuffer, string]>([
+    ['an empty file', new ArrayBuffer(0), 'Not a WAV file'],
+    ['another RIFF type', patched(encodeWav(pcm, 16000), 8, 'AVI '), 'Not a WAV file'],
+    ['stereo', riff(['fmt ', fmt(2, 16000, 16)], ['data', new Uint8Array(4)]), 'Only mono 16-bit PCM WAV is supported'],
+    ['8-bit audio', riff(['fmt ', fmt(1, 16000, 8)], ['data', new Uint8Array(4)]), 'Only mono 16-bit PCM WAV is supported'],
+    ['data before fmt', riff(['data', new Uint8Array(4)], ['fmt ', fmt(1, 16000, 16)]), 'WAV data before format'],
+    ['no data chunk', riff(['fmt ', fmt(1, 16000, 16)]), 'WAV file has no audio data'],
+  ])('rejects %s', (_, wav, message) => {
+    expect(() => decodeWav(wav)).toThrow(message);
+  });
+});
+
+describe('PCM and base64 helpers', () => {
+  it('round-trips base64', () => {
+    expect(new Int16Array(base64Decode(base64Encode(pcm)))).toEqual(new Int16Array(pcm));
+  });
+
+  it('converts float samples to PCM16 and back, clipping out-of-range values', () => {
+    const floats = Float32Array.from([0, 0.5, -0.5, 2, -2]);
+    const back = pcm16ToFloat(floatTo16BitPCM(floats));
+    [0, 0.5, -0.5, 1, -1].forEach((expected, i) => expect(back[i]).toBeCloseTo(expected, 3));
+  });
+});
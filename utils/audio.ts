@@ -0,0 +1,98 @@
+// Helper: Convert Float32Array to valid PCM 16-bit ArrayBuffer for Gemini
+export function floatTo16BitPCM(float32Array: Float32Array): ArrayBuffer {
+  const buffer = new ArrayBuffer(float32Array.length * 2);
+  const view = new DataView(buffer);
+  let offset = 0;
+  for (let i = 0; i < float32Array.length; i++, offset += 2) {
+    let s = Math.max(-1, Math.min(1, float32Array[i]));
+    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+  }
+  return buffer;
+}
+
+// Helper: Base64 Encode
+export function base64Encode(buffer: ArrayBuffer): string {
+  let binary = "";
+  const bytes = new Uint8Array(buffer);
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+// Helper: Wrap PCM 16-bit mono data in a RIFF/WAVE container
+export function encodeWav(pcm16: ArrayBuffer, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + pcm16.byteLength);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm16.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, pcm16.byteLength, true);
+  new Uint8Array(buffer, 44).set(new Uint8Array(pcm16));
+  return buffer;
+}
+
+// Helper: Base64 Decode
+export function base64Decode(base64: string): ArrayBuffer {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+// Helper: Convert PCM 16-bit ArrayBuffer back to Float32Array
+export function pcm16ToFloat(buffer: ArrayBuffer): Float32Array {
+  const view = new DataView(buffer);
+  const length = Math.floor(buffer.byteLength / 2);
+  const float32Data = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    float32Data[i] = view.getInt16(i * 2, true) / 32768.0;
+  }
+  return float32Data;
+}
+
+// Helper: Pull mono PCM 16-bit data back out of a WAV file (the inverse of encodeWav)
+export function decodeWav(wav: ArrayBuffer): { pcm16: ArrayBuffer, sampleRate: number } {
+  const view = new DataView(wav);
+  const readString = (offset: number, length: number) =>
+    String.fromCharCode(...new Uint8Array(wav, offset, length));
+  if (wav.byteLength < 12 || readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') {
+    throw new Error("Not a WAV file");
+  }
+
+  let sampleRate = 0;
+  let offset = 12;
+  while (offset + 8 <= wav.byteLength) {
+    const id = readString(offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ') {
+      const format = view.getUint16(offset + 8, true);
+      const channels = view.getUint16(offset + 10, true);
+      const bits = view.getUint16(offset + 22, true);
+      if (format !== 1 || channels !== 1 || bits !== 16) throw new Error("Only mono 16-bit PCM WAV is supported");
+      sampleRate = view.getUint32(offset + 12, true);
+    } else if (id === 'data') {
+      if (!sampleRate) throw new Error("WAV data before format");
+      const end = Math.min(wav.byteLength, offset + 8 + size);
+      return { pcm16: wav.slice(offset + 8, end), sampleRate };
+    }
+    offset += 8 + size + (size % 2); // Chunks are word aligned
+  }
+  throw new Error("WAV file has no audio data");
+}
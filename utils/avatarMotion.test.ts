@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { AvatarAnimator } from './avatarMotion';
+
+const SAMPLE_RATE = 24000;
+const FRAME_MS = 1000 / 60;
+
+const tone = (hz: number, amplitude: number, length = 1024) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE));
+
+// Runs the animator at 60 fps from `startMs`, with loudness following `amplitudeAt(seconds)`
+const drive = (startMs: number, seconds: number, amplitudeAt: (t: number) => number) => {
+  const animator = new AvatarAnimator({ random: () => 0.5 });
+  const angles: number[] = [];
+  for (let frame = 0; frame < seconds * 60; frame++) {
+    const amplitude = amplitudeAt(frame / 60);
+    angles.push(animator.update(startMs + frame * FRAME_MS, amplitude > 0 ? tone(440, amplitude) : null, SAMPLE_RATE).tailAngle);
+  }
+  return angles;
+};
+
+const largestStep = (angles: number[]) => Math.max(...angles.slice(1).map((angle, i) => Math.abs(angle - angles[i])));
+
+describe('AvatarAnimator', () => {
+  it('sways the tail smoothly while the loudness changes, however long the page has been up', () => {
+    // Speech swelling and fading a few times a second
+    const speech = (t: number) => 0.1 + 0.1 * Math.sin(2 * Math.PI * 0.7 * t);
+    for (const startMs of [0, 10 * 60 * 1000, 24 * 60 * 60 * 1000]) {
+      const angles = drive(startMs, 4, speech);
+      expect(largestStep(angles)).toBeLessThan(3);
+      expect(Math.max(...angles) - Math.min(...angles)).toBeGreaterThan(10);
+    }
+  });
+
+  it('picks the sway up where it left off after a long gap', () => {
+    const animator = new AvatarAnimator({ random: () => 0.5 });
+    let now = 0;
+    for (let frame = 0; frame < 30; frame++) animator.update(now += FRAME_MS, null, SAMPLE_RATE);
+    const before = animator.update(now, null, SAMPLE_RATE).tailAngle;
+    const after = animator.update(now + 60_000, null, SAMPLE_RATE).tailAngle;
+    expect(Math.abs(after - before)).toBeLessThan(3);
+  });
+
+  it('keeps the tail and eyes still with idle motion off', () => {
+    const animator = new AvatarAnimator({ idle: false, random: () => 0 });
+    for (let frame = 0; frame < 600; frame++) {
+      const pose = animator.update(frame * FRAME_MS, tone(440, 0.2), SAMPLE_RATE);
+      expect(pose.tailAngle).toBe(0);
+      expect(pose.blink).toBe(0);
+    }
+  });
+});
@@ -0,0 +1,84 @@
+// Turns the cat's outgoing audio into avatar motion: mouth follows loudness, ears follow
+// pitch, plus blinking and a tail sway that keep going while the cat is quiet.
+
+import { AvatarPose } from '../types';
+import { estimatePitch } from './moodAnalysis';
+
+export type AvatarMotionOptions = {
+  random?: () => number; // Blink timing; injectable for deterministic runs
+  idle?: boolean; // Blink and sway the tail; off for reduced motion
+};
+
+export const REST_POSE: AvatarPose = { mouthOpen: 0, earTilt: 0, whiskerTwitch: 0, blink: 0, tailAngle: 0 };
+
+const SILENCE_RMS = 0.01;
+const LOUD_RMS = 0.2; // Mouth fully open from here
+const CENTER_PITCH_HZ = 400; // Neutral ears; an octave above or below is full tilt
+const MAX_EAR_TILT = 14;
+const BLINK_MS = 160;
+const BLINK_GAP_MS = [2500, 6000];
+const PITCH_SAMPLES = 1024; // Enough for pitch, half the cost of a full analyser frame
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export class AvatarAnimator {
+  private readonly random: () => number;
+  private readonly idle: boolean;
+  private level = 0; // Smoothed loudness 0..1
+  private tilt = 0;
+  private swayPhase = 0; // Radians; advanced per frame so a changing sway rate never jumps
+  private lastUpdateAt: number | null = null;
+  private nextBlinkAt: number | null = null;
+
+  constructor(options: AvatarMotionOptions = {}) {
+    this.random = options.random ?? Math.random;
+    this.idle = options.idle ?? true;
+  }
+
+  // `frame` is the latest time-domain audio, or null while the cat is quiet
+  update(now: number, frame: Float32Array | null, sampleRate: number): AvatarPose {
+    let rms = 0;
+    let pitch: number | null = null;
+    if (frame) {
+      let sum = 0;
+      for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+      rms = Math.sqrt(sum / Math.max(1, frame.length));
+      if (rms > SILENCE_RMS) pitch = estimatePitch(frame.subarray(0, PITCH_SAMPLES), sampleRate);
+    }
+
+    // Open fast, close a little slower so syllables don't flicker
+    const target = clamp((rms - SILENCE_RMS) / (LOUD_RMS - SILENCE_RMS), 0, 1);
+    this.level += (target - this.level) * (target > this.level ? 0.6 : 0.3);
+
+    const tiltTarget = pitch ? clamp(Math.log2(pitch / CENTER_PITCH_HZ), -1, 1) * MAX_EAR_TILT : 0;
+    this.tilt += (tiltTarget - this.tilt) * 0.2;
+
+    // A long gap (a hidden tab) resumes the sway where it left off
+    const dt = this.lastUpdateAt === null ? 0 : clamp((now - this.lastUpdateAt) / 1000, 0, 0.1);
+    this.lastUpdateAt = now;
+    const swayHz = 0.25 + this.level * 0.75;
+    this.swayPhase = (this.swayPhase + 2 * Math.PI * swayHz * dt) % (2 * Math.PI);
+
+    const seconds = now / 1000;
+    return {
+      mouthOpen: this.level,
+      earTilt: this.tilt,
+      whiskerTwitch: this.level * Math.sin(seconds * 40),
+      blink: this.idle ? this.blink(now) : 0,
+      tailAngle: this.idle ? Math.sin(this.swayPhase) * (8 + this.level * 12) : 0,
+    };
+  }
+
+  private blink(now: number) {
+    const [minGap, maxGap] = BLINK_GAP_MS;
+    if (this.nextBlinkAt === null) this.nextBlinkAt = now + minGap + this.random() * (maxGap - minGap);
+
+    const t = now - this.nextBlinkAt;
+    if (t < 0) return 0;
+    if (t > BLINK_MS) {
+      this.nextBlinkAt = now + minGap + this.random() * (maxGap - minGap);
+      return 0;
+    }
+    return 1 - Math.abs(t / BLINK_MS * 2 - 1); // Close then open
+  }
+}
@@ -0,0 +1,249 @@
+import { OUTPUT_SAMPLE_RATE } from '../constants';
+import { base64Encode, floatTo16BitPCM } from './audio';
+
+// Procedural cat vocal synthesizer for when there is no TTS model to ask.
+// Each word of the cat text becomes one vocalization, picked from its spelling
+// ("Purrr" purrs, "Hiss!" hisses, "Mrrp?" trills). Rendered in plain JS rather
+// than an OfflineAudioContext so the server's mock upstream can use it too.
+
+export type CatSound = 'meow' | 'mrrp' | 'purr' | 'hiss' | 'yowl';
+
+type Vocalization = {
+  sound: CatSound;
+  duration: number; // Seconds
+  pitch: number; // Base f0 in Hz (pulse rate for purrs)
+  rising: boolean; // Questions end higher
+  loudness: number; // 0..1
+};
+
+const GAP_SECONDS = 0.1;
+const PEAK_LEVEL = 0.8;
+const RETUNE_EVERY = 64; // Samples between formant filter updates
+
+// Formant pairs (F1, F2) for the mouth shapes a cat moves through
+const VOWELS = {
+  ee: [450, 2300],
+  ah: [900, 1500],
+  oo: [400, 900],
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+const lerp = (a: number, b: number, t: number) => a + (b - a) * clamp(t, 0, 1);
+const mix = (from: number[], to: number[], t: number) => [lerp(from[0], to[0], t), lerp(from[1], to[1], t)];
+
+// Small seeded PRNG so the same text always renders the same audio
+const createNoise = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (((t ^ (t >>> 14)) >>> 0) / 4294967296) * 2 - 1;
+  };
+};
+
+// Two-pole band-pass (constant 0 dB peak) used as a formant resonator
+const createResonator = (sampleRate: number) => {
+  let b0 = 0, b2 = 0, a1 = 0, a2 = 0;
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  return {
+    tune(frequency: number, q: number) {
+      const w = (2 * Math.PI * Math.min(frequency, sampleRate * 0.45)) / sampleRate;
+      const alpha = Math.sin(w) / (2 * q);
+      const a0 = 1 + alpha;
+      b0 = alpha / a0;
+      b2 = -alpha / a0;
+      a1 = (-2 * Math.cos(w)) / a0;
+      a2 = (1 - alpha) / a0;
+    },
+    process(x: number) {
+      const y = b0 * x + b2 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1; x1 = x;
+      y2 = y1; y1 = y;
+      return y;
+    },
+  };
+};
+
+const envelope = (i: number, length: number, attack: number, release: number) =>
+  Math.min(1, i / Math.max(1, attack), (length - i) / Math.max(1, release));
+
+type VoicedShape = {
+  pitchAt: (t: number, seconds: number) => number; // Multiplier on the base pitch
+  formantsAt: (t: number) => number[];
+  amplitudeAt: (t: number, seconds: number) => number;
+};
+
+// Harmonic-rich glottal source through two formant resonators
+const renderVoiced = (out: Float32Array, start: number, v: Vocalization, shape: VoicedShape, sampleRate: number, noise: () => number) => {
+  const length = Math.floor(v.duration * sampleRate);
+  const attack = 0.04 * sampleRate;
+  const release = 0.12 * sampleRate;
+  const f1 = createResonator(sampleRate);
+  const f2 = createResonator(sampleRate);
+  let phase = 0;
+
+  for (let i = 0; i < length && start + i < out.length; i++) {
+    const t = i / length;
+    const seconds = i / sampleRate;
+
+    if (i % RETUNE_EVERY === 0) {
+      const [formant1, formant2] = shape.formantsAt(t);
+      f1.tune(formant1, 5);
+      f2.tune(formant2, 8);
+    }
+
+    const f0 = v.pitch * shape.pitchAt(t, seconds);
+    phase += (2 * Math.PI * f0) / sampleRate;
+    if (phase > 2 * Math.PI * 1000) phase -= 2 * Math.PI * 1000;
+
+    // Sawtooth-like source, band limited to stay below Nyquist
+    let source = 0;
+    const harmonics = Math.min(24, Math.floor(sampleRate / 2 / f0));
+    for (let h = 1; h <= harmonics; h++) {
+      source += Math.sin(phase * h) / h;
+    }
+    source += noise() * 0.15; // Breathiness
+
+    const voiced = f1.process(source) + 0.6 * f2.process(source);
+    out[start + i] += voiced * shape.amplitudeAt(t, seconds) * envelope(i, length, attack, release) * v.loudness;
+  }
+};
+
+const renderMeow = (out: Float32Array, start: number, v: Vocalization, sampleRate: number, noise: () => number) =>
+  renderVoiced(out, start, v, {
+    // "Me-OW": climb to a peak then fall away, or keep climbing for a question
+    pitchAt: (t) => v.rising ? lerp(0.9, 1.35, t) : 0.9 + 0.35 * Math.sin(Math.PI * clamp(t * 1.3, 0, 1)) - 0.15 * t,
+    formantsAt: (t) => t < 0.5 ? mix(VOWELS.ee, VOWELS.ah, t / 0.3) : mix(VOWELS.ah, VOWELS.oo, (t - 0.6) / 0.4),
+    amplitudeAt: () => 1,
+  }, sampleRate, noise);
+
+const renderMrrp = (out: Float32Array, start: number, v: Vocalization, sampleRate: number, noise: () => number) =>
+  renderVoiced(out, start, v, {
+    pitchAt: (t) => lerp(0.9, v.rising ? 1.3 : 1.15, t),
+    formantsAt: (t) => mix(VOWELS.oo, VOWELS.ah, t),
+    // Rolled "rr": fast amplitude flutter that settles into the "p"
+    amplitudeAt: (t, seconds) => t < 0.6 ? 0.6 + 0.4 * Math.sin(2 * Math.PI * 28 * seconds) : 1,
+  }, sampleRate, noise);
+
+const renderYowl = (out: Float32Array, start: number, v: Vocalization, sampleRate: number, noise: () => number) =>
+  renderVoiced(out, start, v, {
+    // Slow wavering moan with vibrato
+    pitchAt: (t, seconds) => (0.85 + 0.3 * Math.sin(Math.PI * t)) * (1 + 0.06 * Math.sin(2 * Math.PI * 5 * seconds)),
+    formantsAt: (t) => mix(VOWELS.oo, VOWELS.ah, Math.sin(Math.PI * 2 * t) * 0.5 + 0.5),
+    amplitudeAt: (t) => 0.8 + 0.2 * Math.sin(Math.PI * t),
+  }, sampleRate, noise);
+
+// Purr: low-rate noisy pulses, louder on the exhale than the inhale
+const renderPurr = (out: Float32Array, start: number, v: Vocalization, sampleRate: number, noise: () => number) => {
+  const length = Math.floor(v.duration * sampleRate);
+  const body = createResonator(sampleRate);
+  const chest = createResonator(sampleRate);
+  body.tune(180, 0.8);
+  chest.tune(450, 1.5);
+  const pulsePeriod = sampleRate / v.pitch;
+  const attack = 0.08 * sampleRate;
+  const release = 0.2 * sampleRate;
+
+  for (let i = 0; i < length && start + i < out.length; i++) {
+    const seconds = i / sampleRate;
+    const pulsePhase = (i % pulsePeriod) / pulsePeriod;
+    const pulse = Math.exp(-pulsePhase * 6);
+    const breath = Math.sin(Math.PI * 1.6 * seconds) >= 0 ? 1 : 0.6;
+    const excitation = noise() * pulse * breath;
+    const sample = 2.5 * body.process(excitation) + chest.process(excitation);
+    out[start + i] += sample * envelope(i, length, attack, release) * v.loudness;
+  }
+};
+
+// Hiss: shaped high-frequency noise with a sharp onset
+const renderHiss = (out: Float32Array, start: number, v: Vocalization, sampleRate: number, noise: () => number) => {
+  const length = Math.floor(v.duration * sampleRate);
+  const low = createResonator(sampleRate);
+  const high = createResonator(sampleRate);
+  low.tune(4200, 1.2);
+  high.tune(7000, 2);
+  const attack = 0.015 * sampleRate;
+  const release = 0.15 * sampleRate;
+
+  for (let i = 0; i < length && start + i < out.length; i++) {
+    const n = noise();
+    const sample = low.process(n) + 0.7 * high.process(n);
+    out[start + i] += sample * envelope(i, length, attack, release) * v.loudness;
+  }
+};
+
+const RENDERERS: Record<CatSound, typeof renderHiss> = {
+  meow: renderMeow,
+  mrrp: renderMrrp,
+  purr: renderPurr,
+  hiss: renderHiss,
+  yowl: renderYowl,
+};
+
+export const classifyCatWord = (word: string): CatSound => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (/^(h+i*s+|p+f+t|g+r+)/.test(letters)) return 'hiss';
+  if (/^(m+r+p|p+r+t|b+r+p|ek|chirp|trill)/.test(letters)) return 'mrrp';
+  if (/^p+u*r+$/.test(letters)) return 'purr';
+  if (/yowl|ro+w+r|o{3,}/.test(letters)) return 'yowl';
+  return 'meow';
+};
+
+const parseWord = (word: string): Vocalization => {
+  const sound = classifyCatWord(word);
+  const letters = word.replace(/[^a-z]/gi, '').length;
+  const exclaim = word.includes('!');
+  const trailing = word.includes('..');
+
+  const base: Record<CatSound, { duration: number, pitch: number }> = {
+    meow: { duration: clamp(0.3 + letters * 0.05, 0.3, 1.3), pitch: 550 },
+    mrrp: { duration: clamp(0.2 + letters * 0.015, 0.2, 0.4), pitch: 600 },
+    purr: { duration: clamp(0.6 + letters * 0.1, 0.6, 1.8), pitch: 26 },
+    hiss: { duration: clamp(0.35 + letters * 0.06, 0.35, 1.0), pitch: 0 },
+    yowl: { duration: clamp(0.8 + letters * 0.08, 0.8, 1.8), pitch: 380 },
+  };
+
+  return {
+    sound,
+    duration: base[sound].duration,
+    pitch: sound === 'purr' ? base[sound].pitch : base[sound].pitch * (exclaim ? 1.15 : trailing ? 0.9 : 1),
+    rising: word.includes('?'),
+    loudness: exclaim ? 1 : trailing ? 0.65 : 0.85,
+  };
+};
+
+// Render cat text (e.g. "Mrrp! Meow?") to mono float samples
+export function synthesizeCatText(catText: string, sampleRate = OUTPUT_SAMPLE_RATE): Float32Array {
+  const words = catText.split(/\s+/).filter(w => /[a-z]/i.test(w));
+  if (words.length === 0) words.push("Meow");
+
+  const vocalizations = words.map(parseWord);
+  const totalSeconds = vocalizations.reduce((sum, v) => sum + v.duration + GAP_SECONDS, 0);
+  const out = new Float32Array(Math.ceil(totalSeconds * sampleRate));
+
+  let seed = 0;
+  for (let i = 0; i < catText.length; i++) seed = (seed * 31 + catText.charCodeAt(i)) | 0;
+  const noise = createNoise(seed);
+
+  let cursor = 0;
+  for (const v of vocalizations) {
+    RENDERERS[v.sound](out, Math.floor(cursor * sampleRate), v, sampleRate, noise);
+    cursor += v.duration + GAP_SECONDS;
+  }
+
+  // Normalize so every clip plays at a comfortable level
+  let peak = 0;
+  for (let i = 0; i < out.length; i++) peak = Math.max(peak, Math.abs(out[i]));
+  if (peak > 0) {
+    const gain = PEAK_LEVEL / peak;
+    for (let i = 0; i < out.length; i++) out[i] *= gain;
+  }
+  return out;
+}
+
+// Same 24 kHz base64 PCM16 the TTS model returns, ready for playAudioChunk/HistoryItem
+export function synthesizeCatAudio(catText: string): string {
+  return base64Encode(floatTo16BitPCM(synthesizeCatText(catText)));
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { floatTo16BitPCM } from './audio';
+import { ConversationRecorder } from './conversationRecorder';
+import { analyzeClipMood } from './moodAnalysis';
+
+const SAMPLE_RATE = 24000;
+
+// Rising tone, like a happy trill
+const trill = (seconds: number) => {
+  let phase = 0;
+  const length = Math.round(SAMPLE_RATE * seconds);
+  return Float32Array.from({ length }, (_, i) => {
+    phase += (2 * Math.PI * 400 * 2 ** (i / length)) / SAMPLE_RATE;
+    return 0.15 * Math.sin(phase);
+  });
+};
+
+const split = (samples: Float32Array, parts: number) => {
+  const size = Math.ceil(samples.length / parts);
+  return Array.from({ length: parts }, (_, i) => floatTo16BitPCM(samples.subarray(i * size, (i + 1) * size)));
+};
+
+// Recorder on a clock that moves one second per reading, starting at 1000
+const setup = () => {
+  let time = 0;
+  return new ConversationRecorder({ profileId: 'luna', voice: 'Puck', sampleRate: SAMPLE_RATE, now: () => (time += 1000) });
+};
+
+describe('ConversationRecorder', () => {
+  it('joins a turn\'s transcript pieces and audio chunks into one turn', () => {
+    const recorder = setup();
+    const samples = trill(0.5);
+    recorder.addUserText('Hello ');
+    recorder.addUserText('kitty');
+    recorder.addCatText(' Mrrp');
+    recorder.addCatText('!');
+    split(samples, 3).forEach(chunk => recorder.addAudio(chunk));
+
+    const recorded = recorder.endTurn();
+    expect(recorded?.conversation).toEqual({
+      id: 'conversation:1000',
+      createdAt: 1000,
+      updatedAt: 2000,
+      profileId: 'luna',
+      voice: 'Puck',
+      turns: [{
+        createdAt: 2000,
+        userText: 'Hello kitty',
+        catText: 'Mrrp!',
+        audioId: 'conversation:1000:0',
+        durationMs: 500,
+        mood: analyzeClipMood(samples, SAMPLE_RATE),
+      }],
+    });
+    expect(recorded?.audio?.id).toBe('conversation:1000:0');
+    expect(recorded?.audio?.sampleRate).toBe(SAMPLE_RATE);
+    expect(new Uint8Array(recorded!.audio!.pcm16)).toEqual(new Uint8Array(floatTo16BitPCM(samples)));
+  });
+
+  it('reads the reply\'s mood however it was chunked', () => {
+    const samples = trill(0.4);
+    const expected = analyzeClipMood(samples, SAMPLE_RATE);
+    expect(expected).toBe('HAPPY');
+    for (const parts of [1, 7, 40]) {
+      const recorder = setup();
+      split(samples, parts).forEach(chunk => recorder.addAudio(chunk));
+      expect(recorder.endTurn()?.conversation.turns[0].mood).toBe(expected);
+    }
+  });
+
+  it('starts each turn afresh, with its own audio id', () => {
+    const recorder = setup();
+    recorder.addCatText('Mew');
+    recorder.addAudio(floatTo16BitPCM(trill(0.2)));
+    recorder.endTurn();
+    recorder.addUserText('Again?');
+    recorder.addAudio(floatTo16BitPCM(new Float32Array(SAMPLE_RATE / 10)));
+    const second = recorder.endTurn();
+
+    expect(second?.audio?.id).toBe('conversation:1000:1');
+    expect(second?.audio?.pcm16.byteLength).toBe(SAMPLE_RATE / 10 * 2);
+    expect(second?.conversation.turns.map(turn => [turn.userText, turn.catText])).toEqual([['', 'Mew'], ['Again?', '']]);
+    // Silence has no mood, and nothing from the first turn carried over
+    expect(second?.conversation.turns[1].mood).toBeUndefined();
+  });
+
+  it('skips a turn with nothing said or heard', () => {
+    const recorder = setup();
+    expect(recorder.endTurn()).toBeNull();
+    recorder.addUserText('  ');
+    recorder.addCatText('\n');
+    expect(recorder.endTurn()).toBeNull();
+
+    recorder.addUserText('Hi');
+    expect(recorder.endTurn()?.conversation.turns).toHaveLength(1);
+  });
+
+  it('leaves audio out of a turn with only a transcript', () => {
+    const recorder = setup();
+    recorder.addUserText('Hi');
+    const recorded = recorder.endTurn();
+    expect(recorded?.audio).toBeUndefined();
+    expect(recorded?.conversation.turns[0]).toEqual({ createdAt: 2000, userText: 'Hi', catText: '' });
+  });
+
+  it('marks a turn the user talked over', () => {
+    const recorder = setup();
+    recorder.addCatText('Meeee');
+    expect(recorder.endTurn(true)?.conversation.turns[0].interrupted).toBe(true);
+    recorder.addCatText('Mrrp');
+    expect(recorder.endTurn()?.conversation.turns[1]).not.toHaveProperty('interrupted');
+  });
+
+  it('hands back a snapshot that later turns do not change', () => {
+    const recorder = setup();
+    recorder.addCatText('One');
+    const first = recorder.endTurn();
+    recorder.addCatText('Two');
+    recorder.endTurn();
+    expect(first?.conversation.turns).toHaveLength(1);
+    expect(first?.conversation.updatedAt).toBe(2000);
+  });
+});
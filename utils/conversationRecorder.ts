@@ -0,0 +1,91 @@
+import { clipDuration } from '../services/storage/database';
+import { AudioClip, Conversation } from '../types';
+import { pcm16ToFloat } from './audio';
+import { StreamingMoodAnalyzer } from './moodAnalysis';
+
+// Builds a Conversation out of a live session's messages. Transcript pieces and audio chunks
+// pile up until the turn ends, then become one ConversationTurn with the reply as one clip.
+
+export type ConversationRecorderOptions = {
+  profileId?: string;
+  voice: string;
+  sampleRate: number; // Of the cat's audio
+  now?: () => number; // Clock, swappable for fixtures
+};
+
+export type RecordedTurn = {
+  conversation: Conversation; // Everything so far, newest turn last
+  audio?: AudioClip; // The newest turn's reply
+};
+
+export class ConversationRecorder {
+  private readonly conversation: Conversation;
+  private readonly sampleRate: number;
+  private readonly now: () => number;
+  private userText = '';
+  private catText = '';
+  private chunks: ArrayBuffer[] = [];
+  private analyzer: StreamingMoodAnalyzer; // Listens to the reply chunk by chunk, not all at once when it ends
+
+  constructor({ profileId, voice, sampleRate, now = Date.now }: ConversationRecorderOptions) {
+    const createdAt = now();
+    this.conversation = { id: `conversation:${createdAt}`, createdAt, updatedAt: createdAt, profileId, voice, turns: [] };
+    this.sampleRate = sampleRate;
+    this.now = now;
+    this.analyzer = new StreamingMoodAnalyzer(sampleRate);
+  }
+
+  addUserText(text: string) {
+    this.userText += text;
+  }
+
+  addCatText(text: string) {
+    this.catText += text;
+  }
+
+  addAudio(pcm16: ArrayBuffer) {
+    this.chunks.push(pcm16);
+    this.analyzer.push(pcm16ToFloat(pcm16));
+  }
+
+  // Closes the current turn; null when nothing was said or heard since the last one
+  endTurn(interrupted = false): RecordedTurn | null {
+    const userText = this.userText.trim();
+    const catText = this.catText.trim();
+    const chunks = this.chunks;
+    const analyzer = this.analyzer;
+    this.userText = '';
+    this.catText = '';
+    this.chunks = [];
+    this.analyzer = new StreamingMoodAnalyzer(this.sampleRate);
+    if (!userText && !catText && chunks.length === 0) return null;
+
+    const createdAt = this.now();
+    let audio: AudioClip | undefined;
+    let reply = {};
+    if (chunks.length > 0) {
+      const joined = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+      let offset = 0;
+      for (const chunk of chunks) {
+        joined.set(new Uint8Array(chunk), offset);
+        offset += chunk.byteLength;
+      }
+      audio = { id: `${this.conversation.id}:${this.conversation.turns.length}`, pcm16: joined.buffer, sampleRate: this.sampleRate };
+      reply = {
+        audioId: audio.id,
+        durationMs: clipDuration(joined.buffer, this.sampleRate),
+        mood: analyzer.mood() ?? undefined,
+      };
+    }
+
+    this.conversation.turns.push({
+      createdAt,
+      userText,
+      catText,
+      ...reply,
+      ...(interrupted ? { interrupted: true } : {}),
+    });
+    this.conversation.updatedAt = createdAt;
+    return { conversation: { ...this.conversation, turns: [...this.conversation.turns] }, audio };
+  }
+}
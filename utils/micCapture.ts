@@ -0,0 +1,92 @@
+import { PcmChunker } from './pcmChunker';
+import captureWorkletUrl from './pcmCaptureWorklet.ts?worker&url';
+
+// Microphone -> PCM16 chunks. Prefers an AudioWorklet so the conversion happens off the
+// main thread; falls back to the deprecated ScriptProcessorNode where worklets are missing.
+
+export type MicCaptureOptions = {
+  targetSampleRate: number;
+  chunkSamples: number;
+  onChunk: (pcm16: ArrayBuffer) => void;
+};
+
+export type MicCapture = {
+  usingWorklet: boolean;
+  contextSampleRate: number; // What the browser actually gave us, before resampling
+  stop: () => void; // Also closes the capture AudioContext
+};
+
+const FALLBACK_BUFFER_SIZE = 4096;
+
+const AudioContextCtor: typeof AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+
+// Ask for the target rate so the browser resamples when it can. Some browsers ignore the
+// request (we resample ourselves), and Firefox refuses to connect a mic to a context that
+// doesn't run at the device rate, in which case we retry at the native rate.
+const openMicSource = (stream: MediaStream, preferredSampleRate: number) => {
+  try {
+    const ctx = new AudioContextCtor({ sampleRate: preferredSampleRate });
+    try {
+      return { ctx, source: ctx.createMediaStreamSource(stream) };
+    } catch (e) {
+      ctx.close();
+      console.warn(`Mic can't run at ${preferredSampleRate} Hz, capturing at the native rate`, e);
+    }
+  } catch (e) {
+    console.warn(`AudioContext can't run at ${preferredSampleRate} Hz`, e);
+  }
+  const ctx = new AudioContextCtor();
+  return { ctx, source: ctx.createMediaStreamSource(stream) };
+};
+
+export const startMicCapture = async (stream: MediaStream, options: MicCaptureOptions): Promise<MicCapture> => {
+  const { ctx, source } = openMicSource(stream, options.targetSampleRate);
+
+  if (ctx.audioWorklet && typeof AudioWorkletNode !== 'undefined') {
+    try {
+      await ctx.audioWorklet.addModule(captureWorkletUrl);
+      const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: 1,
+        processorOptions: { targetSampleRate: options.targetSampleRate, chunkSamples: options.chunkSamples },
+      });
+      node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => options.onChunk(e.data);
+
+      source.connect(node);
+      node.connect(ctx.destination); // Outputs silence; keeps the node pulled by the graph
+
+      return {
+        usingWorklet: true,
+        contextSampleRate: ctx.sampleRate,
+        stop: () => {
+          node.port.onmessage = null;
+          source.disconnect();
+          node.disconnect();
+          ctx.close();
+        },
+      };
+    } catch (e) {
+      console.warn("AudioWorklet capture unavailable, using ScriptProcessor", e);
+    }
+  }
+
+  const chunker = new PcmChunker(ctx.sampleRate, options.targetSampleRate, options.chunkSamples);
+  const processor = ctx.createScriptProcessor(FALLBACK_BUFFER_SIZE, 1, 1);
+  processor.onaudioprocess = (e) => {
+    chunker.push(e.inputBuffer.getChannelData(0)).forEach(options.onChunk);
+  };
+  source.connect(processor);
+  processor.connect(ctx.destination);
+
+  return {
+    usingWorklet: false,
+    contextSampleRate: ctx.sampleRate,
+    stop: () => {
+      processor.onaudioprocess = null;
+      source.disconnect();
+      processor.disconnect();
+      ctx.close();
+    },
+  };
+};
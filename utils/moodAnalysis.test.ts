@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { MOODS } from '../constants';
+import {
+  aggregateMoodFeatures,
+  analyzeClipMood,
+  analyzeFrame,
+  classifyMood,
+  estimatePitch,
+  extractMoodFeatures,
+  MoodFeatures,
+  spectralCentroid,
+  StreamingMoodAnalyzer,
+} from './moodAnalysis';
+
+const SAMPLE_RATE = 24000;
+const FRAME_SIZE = 2048;
+
+// Sweeps from `startHz` to `endHz` (exponentially, like a trill) at a fixed amplitude
+const sweep = (startHz: number, endHz: number, amplitude: number, seconds: number) => {
+  const length = Math.round(SAMPLE_RATE * seconds);
+  const samples = new Float32Array(length);
+  let phase = 0;
+  for (let i = 0; i < length; i++) {
+    phase += (2 * Math.PI * startHz * (endHz / startHz) ** (i / length)) / SAMPLE_RATE;
+    samples[i] = amplitude * Math.sin(phase);
+  }
+  return samples;
+};
+
+const tone = (hz: number, amplitude: number, seconds: number) => sweep(hz, hz, amplitude, seconds);
+
+// Deterministic white noise, so the unpitched fixtures don't flake
+const noise = (amplitude: number, seconds: number) => {
+  let seed = 1;
+  return Float32Array.from({ length: Math.round(SAMPLE_RATE * seconds) }, () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return amplitude * (seed / 2 ** 31 - 1);
+  });
+};
+
+// Low-passed noise: dark and unpitched, like a purr
+const rumble = (amplitude: number, seconds: number) => {
+  const source = noise(1, seconds);
+  const out = new Float32Array(source.length);
+  let level = 0;
+  for (let i = 0; i < source.length; i++) {
+    level += 0.05 * (source[i] - level);
+    out[i] = level;
+  }
+  const peak = Math.max(...out.map(Math.abs));
+  return out.map(v => (v / peak) * amplitude);
+};
+
+const features = (overrides: Partial<MoodFeatures>): MoodFeatures => ({
+  pitchHz: 500,
+  pitchSlope: 0,
+  spectralCentroid: 1500,
+  duration: 0.3,
+  energy: 0.1,
+  energyVariation: 0.1,
+  ...overrides,
+});
+
+describe('estimatePitch', () => {
+  it.each([110, 220, 440, 880, 1200])('finds the pitch of a %i Hz tone', hz => {
+    expect(estimatePitch(tone(hz, 0.5, FRAME_SIZE / SAMPLE_RATE), SAMPLE_RATE)).toBeCloseTo(hz, -1);
+  });
+
+  it('calls noise and silence unpitched', () => {
+    expect(estimatePitch(noise(0.5, FRAME_SIZE / SAMPLE_RATE), SAMPLE_RATE)).toBeNull();
+    expect(estimatePitch(new Float32Array(FRAME_SIZE), SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('spectralCentroid', () => {
+  it('sits at the frequency of a pure tone', () => {
+    expect(spectralCentroid(tone(1000, 0.5, FRAME_SIZE / SAMPLE_RATE), SAMPLE_RATE)).toBeCloseTo(1000, -2);
+  });
+
+  it('is brighter for noise than for a rumble', () => {
+    const bright = spectralCentroid(noise(0.5, FRAME_SIZE / SAMPLE_RATE), SAMPLE_RATE);
+    const dark = spectralCentroid(rumble(0.5, FRAME_SIZE / SAMPLE_RATE), SAMPLE_RATE);
+    expect(bright).toBeGreaterThan(3000);
+    expect(dark).toBeLessThan(bright / 2);
+  });
+});
+
+describe('aggregateMoodFeatures', () => {
+  it('matches extracting features from the frames directly', () => {
+    const samples = sweep(400, 800, 0.2, 0.5);
+    const frames: Float32Array[] = [];
+    for (let start = 0; start + FRAME_SIZE <= samples.length; start += FRAME_SIZE) frames.push(samples.subarray(start, start + FRAME_SIZE));
+
+    const hop = FRAME_SIZE / SAMPLE_RATE;
+    expect(aggregateMoodFeatures(frames.map(f => analyzeFrame(f, SAMPLE_RATE)), hop)).toEqual(
+      extractMoodFeatures(frames, { sampleRate: SAMPLE_RATE }),
+    );
+  });
+
+  it('times the duration from the most recent run of sound', () => {
+    const loud = { rms: 0.2, pitchHz: 500, centroid: 1000 };
+    const quiet = { rms: 0, pitchHz: null, centroid: 0 };
+    const result = aggregateMoodFeatures([loud, loud, loud, quiet, loud, loud], 0.1);
+    expect(result?.duration).toBeCloseTo(0.2);
+    expect(result?.energy).toBeCloseTo(0.2);
+  });
+
+  it('returns null when every frame is silent', () => {
+    expect(aggregateMoodFeatures([{ rms: 0.001, pitchHz: null, centroid: 0 }], 0.1)).toBeNull();
+    expect(aggregateMoodFeatures([], 0.1)).toBeNull();
+  });
+});
+
+describe('classifyMood', () => {
+  const fixtures: [string, Partial<MoodFeatures>, string][] = [
+    ['a loud hiss', { pitchHz: null, spectralCentroid: 5000, energy: 0.2 }, 'ANGRY'],
+    ['a low growl', { pitchHz: 150, spectralCentroid: 800, energy: 0.3 }, 'ANGRY'],
+    ['a quiet murmur', { pitchHz: 250, energy: 0.02 }, 'SLEEPY'],
+    ['a quiet sinking sigh', { pitchHz: 600, pitchSlope: -1, energy: 0.02 }, 'SLEEPY'],
+    ['a purr', { pitchHz: null, spectralCentroid: 400, energy: 0.08 }, 'AFFECTIONATE'],
+    ['a soft dark voice', { pitchHz: 400, spectralCentroid: 1000, energy: 0.05 }, 'AFFECTIONATE'],
+    ['a long flat meow', { pitchHz: 600, duration: 1, energy: 0.1, pitchSlope: 0 }, 'HUNGRY'],
+    ['a rising trill', { pitchHz: 600, pitchSlope: 1, energy: 0.1 }, 'HAPPY'],
+    ['a very loud call', { pitchHz: 600, energy: 0.3, spectralCentroid: 2500 }, 'EXCITED'],
+    ['a high squeak', { pitchHz: 1100, energy: 0.05, spectralCentroid: 2000 }, 'EXCITED'],
+    ['a short chirp', { pitchHz: 600, energy: 0.1, spectralCentroid: 2000 }, 'HAPPY'],
+    ['a quiet bright voice', { pitchHz: 600, energy: 0.05, spectralCentroid: 2000 }, 'RELAXED'],
+  ];
+
+  it.each(fixtures)('reads %s as %s', (_, overrides, mood) => {
+    expect(classifyMood(features(overrides))).toBe(mood);
+  });
+
+  it('only returns known moods', () => {
+    for (const [, overrides] of fixtures) expect(Object.hasOwn(MOODS, classifyMood(features(overrides)))).toBe(true);
+  });
+});
+
+describe('analyzeClipMood', () => {
+  const clips: [string, Float32Array, string | null][] = [
+    ['silence', new Float32Array(SAMPLE_RATE), null],
+    ['a loud hiss', noise(0.6, 0.5), 'ANGRY'],
+    ['a low growl', tone(150, 0.4, 0.5), 'ANGRY'],
+    ['a quiet murmur', tone(250, 0.03, 0.5), 'SLEEPY'],
+    ['a purr', rumble(0.15, 0.5), 'AFFECTIONATE'],
+    ['a long flat meow', tone(600, 0.15, 1), 'HUNGRY'],
+    ['a rising trill', sweep(400, 900, 0.15, 0.4), 'HAPPY'],
+  ];
+
+  it.each(clips)('reads %s as %s', (_, samples, mood) => {
+    expect(analyzeClipMood(samples, SAMPLE_RATE)).toBe(mood);
+  });
+
+  it('ignores a trailing partial frame', () => {
+    expect(analyzeClipMood(tone(600, 0.5, (FRAME_SIZE - 1) / SAMPLE_RATE), SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('StreamingMoodAnalyzer', () => {
+  it('reads a clip the same however it is split', () => {
+    const samples = sweep(400, 900, 0.15, 0.4);
+    for (const chunkSize of [100, 2048, 3000]) {
+      const analyzer = new StreamingMoodAnalyzer(SAMPLE_RATE);
+      for (let start = 0; start < samples.length; start += chunkSize) analyzer.push(samples.subarray(start, start + chunkSize));
+      expect(analyzer.mood()).toBe('HAPPY');
+    }
+  });
+
+  it('stays null until a whole voiced frame has arrived', () => {
+    const analyzer = new StreamingMoodAnalyzer(SAMPLE_RATE);
+    analyzer.push(tone(600, 0.5, (FRAME_SIZE - 1) / SAMPLE_RATE));
+    expect(analyzer.mood()).toBeNull();
+    analyzer.push(new Float32Array(1).fill(0.5));
+    expect(analyzer.mood()).not.toBeNull();
+  });
+});
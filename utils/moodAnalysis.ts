@@ -0,0 +1,248 @@
+// Mood detection from what the cat's voice actually sounds like, not just how loud it is.
+// Everything here is a pure function over time-domain sample frames, so it runs the same
+// on live analyser data and on recorded fixtures.
+
+export type MoodFeatures = {
+  pitchHz: number | null; // Median f0 of voiced frames, null when nothing pitched was heard
+  pitchSlope: number; // Octaves per second over the vocalization; > 0 rises, < 0 falls
+  spectralCentroid: number; // Hz, brightness of the sound (hisses are bright, purrs are dark)
+  duration: number; // Seconds of the most recent continuous vocalization
+  energy: number; // Mean RMS of voiced frames
+  energyVariation: number; // Std-dev of RMS relative to the mean, how "punchy" the envelope is
+};
+
+export type MoodAnalysisOptions = {
+  sampleRate: number;
+  hopSeconds?: number; // Time between frame starts; defaults to back-to-back frames
+};
+
+const SILENCE_RMS = 0.01;
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 1500;
+const PITCH_CLARITY = 0.5; // Normalized autocorrelation needed to call a frame pitched
+
+const rms = (frame: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / Math.max(1, frame.length));
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Autocorrelation pitch estimate, null for noisy or unpitched frames
+export function estimatePitch(frame: Float32Array, sampleRate: number): number | null {
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(frame.length - 1, Math.ceil(sampleRate / MIN_PITCH_HZ));
+  if (maxLag <= minLag) return null;
+
+  let energy = 0;
+  for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i];
+  if (energy === 0) return null;
+
+  const correlations = new Float32Array(maxLag + 1);
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < frame.length; i++) sum += frame[i] * frame[i + lag];
+    correlations[lag] = sum / energy;
+  }
+
+  // First peak that is nearly as strong as the best one avoids octave errors
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) best = Math.max(best, correlations[lag]);
+  if (best < PITCH_CLARITY) return null;
+
+  for (let lag = minLag + 1; lag < maxLag; lag++) {
+    const c = correlations[lag];
+    if (c >= best * 0.9 && c >= correlations[lag - 1] && c >= correlations[lag + 1]) {
+      // Parabolic interpolation for sub-sample accuracy
+      const a = correlations[lag - 1], b = c, d = correlations[lag + 1];
+      const denominator = a - 2 * b + d;
+      const shift = denominator !== 0 ? (0.5 * (a - d)) / denominator : 0;
+      return sampleRate / (lag + shift);
+    }
+  }
+  return null;
+}
+
+// In-place iterative radix-2 FFT; `re`/`im` length must be a power of two
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k), sin = Math.sin(angle * k);
+        const evenIndex = start + k, oddIndex = start + k + size / 2;
+        const oddRe = re[oddIndex] * cos - im[oddIndex] * sin;
+        const oddIm = re[oddIndex] * sin + im[oddIndex] * cos;
+        re[oddIndex] = re[evenIndex] - oddRe;
+        im[oddIndex] = im[evenIndex] - oddIm;
+        re[evenIndex] += oddRe;
+        im[evenIndex] += oddIm;
+      }
+    }
+  }
+};
+
+export function spectralCentroid(frame: Float32Array, sampleRate: number): number {
+  let size = 1;
+  while (size < frame.length) size <<= 1;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < frame.length; i++) {
+    const hann = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / Math.max(1, frame.length - 1));
+    re[i] = frame[i] * hann;
+  }
+  fft(re, im);
+
+  let weighted = 0, total = 0;
+  for (let bin = 1; bin < size / 2; bin++) {
+    const magnitude = Math.hypot(re[bin], im[bin]);
+    weighted += magnitude * (bin * sampleRate) / size;
+    total += magnitude;
+  }
+  return total > 0 ? weighted / total : 0;
+}
+
+// What one frame contributes to the mood. Computed once per frame so a sliding window only
+// has to aggregate, not redo the pitch search and FFT of every frame on every update.
+export type FrameFeatures = {
+  rms: number;
+  pitchHz: number | null; // null when silent or unpitched
+  centroid: number; // 0 when silent
+};
+
+export function analyzeFrame(frame: Float32Array, sampleRate: number): FrameFeatures {
+  const level = rms(frame);
+  if (level < SILENCE_RMS) return { rms: level, pitchHz: null, centroid: 0 };
+  return { rms: level, pitchHz: estimatePitch(frame, sampleRate), centroid: spectralCentroid(frame, sampleRate) };
+}
+
+export function extractMoodFeatures(frames: Float32Array[], { sampleRate, hopSeconds }: MoodAnalysisOptions): MoodFeatures | null {
+  if (frames.length === 0) return null;
+  const hop = hopSeconds ?? frames[0].length / sampleRate;
+  return aggregateMoodFeatures(frames.map(frame => analyzeFrame(frame, sampleRate)), hop);
+}
+
+// Frame features taken `hopSeconds` apart, oldest first
+export function aggregateMoodFeatures(frames: FrameFeatures[], hopSeconds: number): MoodFeatures | null {
+  const levels = frames.map(f => f.rms);
+  const voiced = frames.map((_, i) => i).filter(i => levels[i] >= SILENCE_RMS);
+  if (voiced.length === 0) return null;
+
+  // Most recent continuous run of sound is the current vocalization
+  const runEnd = voiced[voiced.length - 1];
+  let runStart = runEnd;
+  while (runStart > 0 && levels[runStart - 1] >= SILENCE_RMS) runStart--;
+
+  const pitches: { time: number, hz: number }[] = [];
+  let centroidSum = 0;
+  for (const i of voiced) {
+    const hz = frames[i].pitchHz;
+    if (hz !== null) pitches.push({ time: i * hopSeconds, hz });
+    centroidSum += frames[i].centroid;
+  }
+
+  // Least-squares slope of log2(pitch) over time
+  let pitchSlope = 0;
+  if (pitches.length >= 2) {
+    const meanT = pitches.reduce((s, p) => s + p.time, 0) / pitches.length;
+    const meanP = pitches.reduce((s, p) => s + Math.log2(p.hz), 0) / pitches.length;
+    let num = 0, den = 0;
+    for (const p of pitches) {
+      num += (p.time - meanT) * (Math.log2(p.hz) - meanP);
+      den += (p.time - meanT) ** 2;
+    }
+    pitchSlope = den > 0 ? num / den : 0;
+  }
+
+  const voicedLevels = voiced.map(i => levels[i]);
+  const energy = voicedLevels.reduce((s, l) => s + l, 0) / voicedLevels.length;
+  const variance = voicedLevels.reduce((s, l) => s + (l - energy) ** 2, 0) / voicedLevels.length;
+
+  return {
+    pitchHz: pitches.length > 0 ? median(pitches.map(p => p.hz)) : null,
+    pitchSlope,
+    spectralCentroid: centroidSum / voiced.length,
+    duration: (runEnd - runStart + 1) * hopSeconds,
+    energy,
+    energyVariation: energy > 0 ? Math.sqrt(variance) / energy : 0,
+  };
+}
+
+// Map features onto a MOODS key
+export function classifyMood(features: MoodFeatures): string {
+  const { pitchHz, pitchSlope, spectralCentroid, duration, energy } = features;
+
+  // Bright, unpitched and loud: hiss. Low and loud: growl.
+  if (pitchHz === null && spectralCentroid > 3000 && energy > 0.05) return 'ANGRY';
+  if (pitchHz !== null && pitchHz < 200 && energy > 0.15) return 'ANGRY';
+
+  // Quiet and dark, or a slow sinking murmur
+  if (energy < 0.03 && (pitchHz === null || pitchHz < 300 || pitchSlope < -0.5)) return 'SLEEPY';
+
+  // Unpitched rumble (purr) or soft, dark voicing
+  if (pitchHz === null && energy < 0.15) return 'AFFECTIONATE';
+  if (pitchHz !== null && energy < 0.08 && spectralCentroid < 1500) return 'AFFECTIONATE';
+
+  // Long, insistent meow that doesn't rise
+  if (pitchHz !== null && duration > 0.6 && energy > 0.05 && pitchSlope <= 0.3) return 'HUNGRY';
+
+  // Rising trills and chirps
+  if (pitchSlope > 0.5) return 'HAPPY';
+
+  if (energy > 0.2 || (pitchHz !== null && pitchHz > 900)) return 'EXCITED';
+  if (pitchHz !== null && energy > 0.06) return 'HAPPY';
+  return 'RELAXED';
+}
+
+// Takes a clip as it arrives and analyses each frame as soon as it is complete, so a long
+// clip's mood is ready the moment it ends instead of costing one long pass then
+export class StreamingMoodAnalyzer {
+  private readonly frames: FrameFeatures[] = [];
+  private readonly pending: Float32Array;
+  private filled = 0; // Samples of `pending` holding the next frame
+
+  constructor(private readonly sampleRate: number, private readonly frameSize = 2048) {
+    this.pending = new Float32Array(frameSize);
+  }
+
+  push(samples: Float32Array) {
+    for (let offset = 0; offset < samples.length;) {
+      const take = Math.min(this.frameSize - this.filled, samples.length - offset);
+      this.pending.set(samples.subarray(offset, offset + take), this.filled);
+      this.filled += take;
+      offset += take;
+      if (this.filled === this.frameSize) {
+        this.frames.push(analyzeFrame(this.pending, this.sampleRate));
+        this.filled = 0;
+      }
+    }
+  }
+
+  // MOODS key of everything so far, or null when it was silent; a trailing partial frame is left out
+  mood(): string | null {
+    const features = aggregateMoodFeatures(this.frames, this.frameSize / this.sampleRate);
+    return features ? classifyMood(features) : null;
+  }
+}
+
+// Whole recorded clip at once, cut into the same back-to-back frames the live analyser gives
+export function analyzeClipMood(samples: Float32Array, sampleRate: number, frameSize = 2048): string | null {
+  const analyzer = new StreamingMoodAnalyzer(sampleRate, frameSize);
+  analyzer.push(samples);
+  return analyzer.mood();
+}
@@ -0,0 +1,41 @@
+// Service worker registration and notifications for offline use (see public/sw.js)
+
+export async function registerServiceWorker(url: string): Promise<ServiceWorkerRegistration | null> {
+  if (!('serviceWorker' in navigator)) return null;
+  try {
+    const registration = await navigator.serviceWorker.register(url);
+    // Everything loaded before the worker took control still needs caching
+    const ready = await navigator.serviceWorker.ready;
+    const urls = [location.href, ...performance.getEntriesByType('resource').map(entry => entry.name)];
+    ready.active?.postMessage({ type: 'precache', urls });
+    return registration;
+  } catch (err) {
+    console.warn("Service worker registration failed", err);
+    return null;
+  }
+}
+
+// Ask once; browsers only allow this from a user gesture
+export async function requestNotificationPermission(): Promise<void> {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return;
+  try {
+    await Notification.requestPermission();
+  } catch (err) {
+    console.warn("Notification permission request failed", err);
+  }
+}
+
+// Returns false when notifications aren't allowed, so callers can fall back to the status line
+export async function notify(title: string, body: string): Promise<boolean> {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return false;
+  try {
+    // Mobile browsers only show notifications through the service worker
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) await registration.showNotification(title, { body, tag: 'cattalk' });
+    else new Notification(title, { body });
+    return true;
+  } catch (err) {
+    console.warn("Notification failed", err);
+    return false;
+  }
+}
@@ -0,0 +1,39 @@
+import { PcmChunker } from './pcmChunker';
+
+// Runs on the audio rendering thread: resample, convert to PCM16 and frame the mic audio,
+// then post each finished chunk's ArrayBuffer to the main thread (transferred, not copied).
+
+// AudioWorkletGlobalScope is not part of the DOM typings
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: new (options: any) => AudioWorkletProcessor): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: any);
+}
+
+export type PcmCaptureOptions = {
+  targetSampleRate: number;
+  chunkSamples: number;
+};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private chunker: PcmChunker;
+
+  constructor(options: { processorOptions: PcmCaptureOptions }) {
+    super(options);
+    const { targetSampleRate, chunkSamples } = options.processorOptions;
+    this.chunker = new PcmChunker(sampleRate, targetSampleRate, chunkSamples);
+  }
+
+  process(inputs: Float32Array[][]) {
+    const channel = inputs[0]?.[0];
+    if (channel) {
+      for (const buffer of this.chunker.push(channel)) {
+        this.port.postMessage(buffer, [buffer]);
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
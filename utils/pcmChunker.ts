@@ -0,0 +1,32 @@
+import { StreamingResampler } from './resampler';
+
+// Turns microphone float buffers into fixed-size PCM16 chunks at the rate the live model expects.
+// Shared by the capture worklet and the ScriptProcessor fallback so both send identical audio.
+
+export class PcmChunker {
+  private readonly resampler: StreamingResampler;
+  private chunk: Int16Array;
+  private filled = 0;
+
+  constructor(inputSampleRate: number, outputSampleRate: number, private readonly chunkSamples: number) {
+    this.resampler = new StreamingResampler(inputSampleRate, outputSampleRate);
+    this.chunk = new Int16Array(chunkSamples);
+  }
+
+  // Returns any chunks completed by this input (usually zero or one)
+  push(input: Float32Array): ArrayBuffer[] {
+    const ready: ArrayBuffer[] = [];
+    const samples = this.resampler.process(input);
+
+    for (let i = 0; i < samples.length; i++) {
+      const s = Math.max(-1, Math.min(1, samples[i]));
+      this.chunk[this.filled++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+      if (this.filled === this.chunkSamples) {
+        ready.push(this.chunk.buffer as ArrayBuffer);
+        this.chunk = new Int16Array(this.chunkSamples);
+        this.filled = 0;
+      }
+    }
+    return ready;
+  }
+}
@@ -0,0 +1,54 @@
+// Gapless scheduling of model audio with a handle on everything still queued, so the cat
+// can be cut off mid-sentence (server `interrupted`, or the user starting to talk).
+
+export class PlaybackQueue {
+  private readonly sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+
+  // `onIdle` fires once the last queued source has finished or been stopped
+  constructor(private readonly ctx: AudioContext, private readonly onIdle?: () => void) {}
+
+  // Schedule `buffer` right after whatever is already queued
+  enqueue(buffer: AudioBuffer, destination: AudioNode, onEnded?: () => void) {
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(destination);
+
+    source.onended = () => {
+      source.disconnect();
+      if (onEnded) onEnded();
+      // Already removed by stopAll()
+      if (!this.sources.delete(source)) return;
+      if (this.sources.size === 0 && this.onIdle) this.onIdle();
+    };
+
+    if (this.nextStartTime < this.ctx.currentTime) {
+      this.nextStartTime = this.ctx.currentTime;
+    }
+    source.start(this.nextStartTime);
+    this.nextStartTime += buffer.duration;
+    this.sources.add(source);
+  }
+
+  // Silence everything playing or scheduled and start the next chunk immediately
+  stopAll() {
+    const hadSources = this.sources.size > 0;
+    const sources = [...this.sources];
+    this.sources.clear();
+    this.nextStartTime = 0;
+
+    sources.forEach(source => {
+      try {
+        source.stop();
+      } catch {
+        // Never started; nothing to stop
+      }
+    });
+
+    if (hadSources && this.onIdle) this.onIdle();
+  }
+
+  get isPlaying() {
+    return this.sources.size > 0;
+  }
+}
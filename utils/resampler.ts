@@ -0,0 +1,139 @@
+// Band-limited (windowed-sinc) sample rate conversion.
+// Browsers don't always honor the sampleRate we ask an AudioContext for, so audio has to be
+// converted ourselves: mic input (often 44.1/48 kHz) down to 16 kHz for the live model, and
+// 24 kHz model audio up to whatever the output context actually runs at.
+
+const ZERO_CROSSINGS = 16; // Kernel half-width in zero crossings of the sinc
+const PASSBAND = 0.95; // Fraction of the lower Nyquist frequency kept, leaves room for the roll-off
+
+type Kernel = {
+  step: number; // Input samples per output sample
+  halfWidth: number; // In input samples
+  weight: (offset: number) => number; // Filter tap at `offset` input samples from the output time
+};
+
+const TABLE_RESOLUTION = 256; // Precomputed kernel points per input sample
+
+const createKernel = (inputRate: number, outputRate: number): Kernel => {
+  // Cutoff in cycles per input sample; below the output Nyquist when downsampling
+  const cutoff = 0.5 * Math.min(1, outputRate / inputRate) * PASSBAND;
+  const halfWidth = ZERO_CROSSINGS / (2 * cutoff);
+
+  // Blackman-windowed sinc, tabulated once since it is evaluated for every tap of every sample
+  const table = new Float32Array(Math.ceil(halfWidth * TABLE_RESOLUTION) + 2);
+  for (let i = 0; i < table.length; i++) {
+    const offset = i / TABLE_RESOLUTION;
+    if (offset >= halfWidth) break;
+    const x = 2 * cutoff * offset;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const w = Math.PI * offset / halfWidth;
+    table[i] = sinc * (0.42 + 0.5 * Math.cos(w) + 0.08 * Math.cos(2 * w));
+  }
+
+  return {
+    step: inputRate / outputRate,
+    halfWidth,
+    weight: (offset) => {
+      const position = Math.abs(offset) * TABLE_RESOLUTION;
+      const index = Math.floor(position);
+      if (index >= table.length - 1) return 0;
+      return table[index] + (table[index + 1] - table[index]) * (position - index);
+    },
+  };
+};
+
+// Filter `sampleAt` around input time `t`, normalized so DC passes at unity gain
+const interpolate = (kernel: Kernel, t: number, sampleAt: (index: number) => number) => {
+  const first = Math.ceil(t - kernel.halfWidth);
+  const last = Math.floor(t + kernel.halfWidth);
+  let sum = 0;
+  let weights = 0;
+  for (let i = first; i <= last; i++) {
+    const weight = kernel.weight(i - t);
+    sum += weight * sampleAt(i);
+    weights += weight;
+  }
+  return weights !== 0 ? sum / weights : 0;
+};
+
+// Number of output samples `inputLength` input samples produce
+export const resampledLength = (inputLength: number, inputRate: number, outputRate: number) =>
+  Math.ceil((inputLength * outputRate) / inputRate);
+
+// One-shot conversion of a complete clip. Edges are extended rather than zero padded so
+// back-to-back chunks converted separately don't click at their boundaries.
+export function resample(input: Float32Array, inputRate: number, outputRate: number): Float32Array {
+  if (inputRate === outputRate) return input.slice();
+
+  const kernel = createKernel(inputRate, outputRate);
+  const output = new Float32Array(resampledLength(input.length, inputRate, outputRate));
+  const last = input.length - 1;
+  const sampleAt = (i: number) => input[i < 0 ? 0 : i > last ? last : i];
+
+  for (let k = 0; k < output.length; k++) {
+    output[k] = interpolate(kernel, k * kernel.step, sampleAt);
+  }
+  return output;
+}
+
+// Converts an unbounded stream fed in arbitrary-sized buffers. Output lags the input by
+// the kernel half-width; `flush()` drains it so the total length is exactly resampledLength().
+export class StreamingResampler {
+  private readonly kernel: Kernel | null; // null when the rates match
+  private buffer: Float32Array = new Float32Array(0);
+  private dropped = 0; // Input samples discarded from the front of `buffer`
+  private inputCount = 0;
+  private outputCount = 0;
+
+  constructor(private readonly inputRate: number, private readonly outputRate: number) {
+    this.kernel = inputRate === outputRate ? null : createKernel(inputRate, outputRate);
+  }
+
+  process(input: Float32Array): Float32Array {
+    this.inputCount += input.length;
+    if (!this.kernel) {
+      this.outputCount += input.length;
+      return input.slice();
+    }
+
+    const buffer = new Float32Array(this.buffer.length + input.length);
+    buffer.set(this.buffer);
+    buffer.set(input, this.buffer.length);
+    this.buffer = buffer;
+
+    return this.drain(this.dropped + buffer.length);
+  }
+
+  // Emit everything still held back, treating the stream as silent after its end
+  flush(): Float32Array {
+    if (!this.kernel) return new Float32Array(0);
+    return this.drain(Infinity);
+  }
+
+  // Produce outputs whose whole kernel window lies before input index `available`
+  private drain(available: number): Float32Array {
+    const kernel = this.kernel!;
+    const expected = resampledLength(this.inputCount, this.inputRate, this.outputRate);
+    const out: number[] = [];
+    const buffer = this.buffer;
+    const dropped = this.dropped;
+    const sampleAt = (i: number) => {
+      const index = i - dropped;
+      return index >= 0 && index < buffer.length ? buffer[index] : 0;
+    };
+
+    while (this.outputCount < expected) {
+      const t = this.outputCount * kernel.step;
+      if (t + kernel.halfWidth >= available) break;
+      out.push(interpolate(kernel, t, sampleAt));
+      this.outputCount++;
+    }
+
+    // Keep only the input the next output's window still needs
+    const keepFrom = Math.max(this.dropped, Math.floor(this.outputCount * kernel.step - kernel.halfWidth));
+    this.buffer = this.buffer.slice(keepFrom - this.dropped);
+    this.dropped = keepFrom;
+
+    return Float32Array.from(out);
+  }
+}
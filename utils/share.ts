@@ -0,0 +1,27 @@
+// Share a clip through the OS share sheet, or copy its caption where files can't be shared
+// (desktop browsers, older iOS). Returns what actually happened so the UI can say so.
+
+export type ShareOutcome = 'shared' | 'copied' | 'cancelled';
+
+export type ShareableClip = {
+  file: File;
+  title: string;
+  text: string; // Caption; what ends up on the clipboard in the fallback
+};
+
+export async function shareClip({ file, title, text }: ShareableClip): Promise<ShareOutcome> {
+  const data: ShareData = { files: [file], title, text };
+  if (navigator.canShare?.(data)) {
+    try {
+      await navigator.share(data);
+      return 'shared';
+    } catch (e) {
+      if ((e as DOMException).name === 'AbortError') return 'cancelled';
+      // Some browsers claim support and then refuse the file; fall through to the clipboard
+      console.warn("File share failed, copying caption instead", e);
+    }
+  }
+
+  await navigator.clipboard.writeText(text);
+  return 'copied';
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { VoiceActivityDetector } from './vad';
+
+const SAMPLE_RATE = 16000;
+const CHUNK = 2048; // What the mic capture hands over at a time
+
+const tone = (hz: number, amplitude: number, seconds: number) =>
+  Float32Array.from({ length: Math.round(SAMPLE_RATE * seconds) }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE));
+
+// Deterministic white noise, so the fixtures don't flake
+const noise = (amplitude: number, seconds: number) => {
+  let seed = 1;
+  return Float32Array.from({ length: Math.round(SAMPLE_RATE * seconds) }, () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return amplitude * (seed / 2 ** 31 - 1);
+  });
+};
+
+const silence = (seconds: number) => new Float32Array(Math.round(SAMPLE_RATE * seconds));
+
+// The detector's answer after each mic-sized chunk
+const run = (vad: VoiceActivityDetector, samples: Float32Array | Int16Array) => {
+  const results: boolean[] = [];
+  for (let start = 0; start < samples.length; start += CHUNK) results.push(vad.process(samples.subarray(start, start + CHUNK)));
+  return results;
+};
+
+const detector = () => new VoiceActivityDetector({ sampleRate: SAMPLE_RATE });
+
+describe('VoiceActivityDetector', () => {
+  it.each<[string, Float32Array, boolean]>([
+    ['silence', silence(1), false],
+    ['a voice-like tone', tone(300, 0.2, 1), true],
+    ['a quiet voice', tone(300, 0.03, 1), true],
+    ['a tone below the absolute minimum', tone(300, 0.01, 1), false],
+    ['loud white noise (too many zero crossings)', noise(0.3, 1), false],
+  ])('hears %s as speech: %s', (_, samples, speaking) => {
+    expect(run(detector(), samples).every(result => result === speaking)).toBe(true);
+  });
+
+  it('stays speaking through the hangover, then stops', () => {
+    const vad = detector();
+    run(vad, tone(300, 0.2, 0.5));
+    expect(vad.process(silence(0.3))).toBe(true);
+    expect(vad.process(silence(0.2))).toBe(false);
+  });
+
+  it('honours a custom hangover', () => {
+    const vad = new VoiceActivityDetector({ sampleRate: SAMPLE_RATE, hangoverMs: 100 });
+    run(vad, tone(300, 0.2, 0.5));
+    expect(vad.process(silence(0.08))).toBe(true);
+    expect(vad.process(silence(0.04))).toBe(false);
+  });
+
+  it('learns a steady background hum and stops calling it speech', () => {
+    const vad = detector();
+    const hum = tone(120, 0.03, 6);
+    const results = run(vad, hum);
+    expect(results[0]).toBe(true); // Unknown at first
+    expect(results[results.length - 1]).toBe(false);
+
+    // A voice over the hum still gets through
+    const voice = tone(300, 0.2, 0.3).map((s, i) => s + hum[i]);
+    expect(run(vad, voice).every(Boolean)).toBe(true);
+  });
+
+  it('drops the noise floor again once the room goes quiet', () => {
+    const vad = detector();
+    run(vad, tone(120, 0.03, 6));
+    run(vad, silence(2));
+    expect(run(vad, tone(300, 0.03, 0.3)).every(Boolean)).toBe(true);
+  });
+
+  it('reads PCM16 the same as float audio', () => {
+    const samples = [silence(0.5), tone(300, 0.1, 0.5), silence(1), noise(0.3, 0.5)];
+    const float = detector();
+    const pcm = detector();
+    for (const chunk of samples) {
+      const asPcm = Int16Array.from(chunk, s => Math.round(s * 32767));
+      expect(run(pcm, asPcm)).toEqual(run(float, chunk));
+    }
+  });
+});
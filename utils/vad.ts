@@ -0,0 +1,67 @@
+// Energy + zero-crossing voice activity detection for the live session mic.
+// Tracks an adaptive noise floor so steady background sound (fans, TV hum) doesn't count
+// as speech, and holds "speaking" for a short hangover so words aren't chopped apart.
+
+export type VadOptions = {
+  sampleRate: number;
+  frameMs?: number; // Analysis frame inside each chunk
+  hangoverMs?: number; // Keep transmitting this long after the last voiced frame
+  energyRatio?: number; // How far above the noise floor a voiced frame must be
+  minEnergy?: number; // Absolute RMS below which nothing is speech
+  maxZeroCrossingRate?: number; // Crossings per sample above which a frame is hiss/noise
+};
+
+const INITIAL_NOISE_FLOOR = 0.005;
+
+export class VoiceActivityDetector {
+  private readonly frameLength: number;
+  private readonly hangoverSeconds: number;
+  private readonly energyRatio: number;
+  private readonly minEnergy: number;
+  private readonly maxZeroCrossingRate: number;
+  private noiseFloor = INITIAL_NOISE_FLOOR;
+  private elapsed = 0; // Seconds of audio processed
+  private lastVoicedAt = -Infinity;
+
+  constructor(private readonly options: VadOptions) {
+    this.frameLength = Math.round(((options.frameMs ?? 20) / 1000) * options.sampleRate);
+    this.hangoverSeconds = (options.hangoverMs ?? 400) / 1000;
+    this.energyRatio = options.energyRatio ?? 3;
+    this.minEnergy = options.minEnergy ?? 0.01;
+    this.maxZeroCrossingRate = options.maxZeroCrossingRate ?? 0.35;
+  }
+
+  // Feed the next block of audio (float, or PCM16 as captured); returns whether speech is active
+  process(samples: Float32Array | Int16Array): boolean {
+    const scale = samples instanceof Int16Array ? 1 / 32768 : 1;
+
+    for (let start = 0; start < samples.length; start += this.frameLength) {
+      const end = Math.min(samples.length, start + this.frameLength);
+      let energy = 0;
+      let crossings = 0;
+      for (let i = start; i < end; i++) {
+        const s = samples[i] * scale;
+        energy += s * s;
+        if (i > start && (samples[i - 1] < 0) !== (samples[i] < 0)) crossings++;
+      }
+      const rms = Math.sqrt(energy / Math.max(1, end - start));
+      const zeroCrossingRate = crossings / Math.max(1, end - start);
+
+      const voiced = rms > Math.max(this.minEnergy, this.noiseFloor * this.energyRatio)
+        && zeroCrossingRate < this.maxZeroCrossingRate;
+
+      // Follow the background level quickly down, and only very slowly up while talking
+      const rate = voiced ? 0.001 : 0.05;
+      this.noiseFloor = Math.max(1e-4, this.noiseFloor * (1 - rate) + rms * rate);
+
+      this.elapsed += (end - start) / this.options.sampleRate;
+      if (voiced) this.lastVoicedAt = this.elapsed;
+    }
+
+    return this.isSpeaking;
+  }
+
+  get isSpeaking(): boolean {
+    return this.elapsed - this.lastVoicedAt <= this.hangoverSeconds;
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, readZip } from './zip';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe('crc32', () => {
+  it.each([
+    ['', 0],
+    ['123456789', 0xCBF43926], // The standard check value
+    ['The quick brown fox jumps over the lazy dog', 0x414FA339],
+  ])('checksums %j', (input, expected) => {
+    expect(crc32(text(input))).toBe(expected);
+  });
+});
+
+describe('createZip / readZip', () => {
+  const entries = [
+    { name: 'manifest.json', data: text('{"hello":"cat"}') },
+    { name: 'audio/1700000000000.wav', data: Uint8Array.from({ length: 5000 }, (_, i) => i % 251) },
+    { name: 'empty', data: new Uint8Array(0) },
+    { name: 'mäuse/🐭.txt', data: text('squeak') },
+  ];
+
+  it('reads back every entry it wrote', () => {
+    const files = readZip(createZip(entries));
+    expect([...files.keys()]).toEqual(entries.map(entry => entry.name));
+    for (const entry of entries) expect(files.get(entry.name)).toEqual(entry.data);
+  });
+
+  it('reads an archive that sits inside a larger buffer', () => {
+    const zip = createZip(entries);
+    const padded = new Uint8Array(zip.length + 16);
+    padded.set(zip, 8);
+    expect(readZip(padded.subarray(8, 8 + zip.length)).get('empty')).toEqual(new Uint8Array(0));
+  });
+
+  it('writes an empty archive', () => {
+    expect(readZip(createZip([])).size).toBe(0);
+  });
+
+  it('rejects a damaged entry', () => {
+    const zip = createZip(entries);
+    const at = 30 + 'manifest.json'.length + 3; // Inside the first entry's data
+    zip[at] ^= 0xFF;
+    expect(() => readZip(zip)).toThrow('Damaged zip entry (manifest.json)');
+  });
+
+  it('rejects a truncated entry', () => {
+    const zip = createZip([{ name: 'a', data: text('meow') }]);
+    new DataView(zip.buffer).setUint32(zip.length - 22 - 46 - 1 + 20, 4000, true); // The entry's size in the central directory
+    expect(() => readZip(zip)).toThrow('Damaged zip entry (a)');
+  });
+
+  it('rejects compressed entries', () => {
+    const zip = createZip([{ name: 'a', data: text('meow') }]);
+    new DataView(zip.buffer).setUint16(zip.length - 22 - 46 - 1 + 10, 8, true); // Deflate
+    expect(() => readZip(zip)).toThrow("Compressed zip entries aren't supported (a)");
+  });
+
+  it('rejects data that is not a zip', () => {
+    expect(() => readZip(text('definitely not a zip file, just some text'))).toThrow('Not a zip archive');
+    expect(() => readZip(new Uint8Array(4))).toThrow('Not a zip archive');
+  });
+});
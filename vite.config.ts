@@ -8,11 +8,17 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // API + live relay served by `npm run server`, which keeps GEMINI_API_KEY out of the bundle
+          '/api': {
+            target: `http://localhost:${env.SERVER_PORT || 8787}`,
+            ws: true,
+          },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.TRANSLATOR_BACKEND': JSON.stringify(env.TRANSLATOR_BACKEND)
       },
       resolve: {
         alias: {